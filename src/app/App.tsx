@@ -7,6 +7,7 @@ import { MainScreen } from './components/MainScreen';
 import { NewTripScreen } from './components/NewTripScreen';
 import { RecapScreen } from './components/RecapScreen';
 import { ActivityScreen } from './components/ActivityScreen';
+import { DrivingPromptDialog } from './components/DrivingPromptDialog';
 
 type Screen = 'main' | 'new-trip' | 'recap' | 'activity';
 
@@ -28,6 +29,7 @@ function AppContent() {
       {currentScreen === 'new-trip' && <NewTripScreen onNavigate={handleNavigate} />}
       {currentScreen === 'recap' && <RecapScreen onNavigate={handleNavigate} />}
       {currentScreen === 'activity' && <ActivityScreen onNavigate={handleNavigate} />}
+      <DrivingPromptDialog />
     </>
   );
 }
@@ -1,13 +1,27 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Play, Square, Clock, MapPin, Calendar } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Play, Square, Clock, MapPin, Calendar, Bell, ShieldAlert, Loader2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
 import { useAuth } from '../contexts/AuthContext';
 import { useTrips, ELDEntry } from '../contexts/TripContext';
+import {
+  summarizeDutyTotals,
+  exceptionCitation,
+  HOS_EXCEPTION_LABELS,
+  HosExceptionType,
+  SPECIAL_CATEGORIES,
+  SpecialCategory,
+  isSpecialCategory,
+} from '../utils/hos';
+import { captureLocation, CapturedLocation } from '../utils/location';
+import { HosClocks } from './HosClocks';
+import { ToggleGroup, ToggleGroupItem } from './ui/toggle-group';
 import { toast } from 'sonner';
 
 interface ActivityScreenProps {
@@ -15,26 +29,49 @@ interface ActivityScreenProps {
 }
 
 type ActivityStatus = 'off-duty' | 'sleeper-berth' | 'driving' | 'on-duty-not-driving';
+type ActivityChoice = ActivityStatus | SpecialCategory;
+type ClaimableException = Exclude<HosExceptionType, 'short-haul-exempt'>;
+
+// Minutes-before-limit options offered for driving alerts
+const ALERT_OPTIONS = [120, 60, 30, 15, 5];
 
 export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
   const { user } = useAuth();
-  const { activeActivity, todayActivities, startActivity, stopActivity } = useTrips();
+  const {
+    activeActivity,
+    todayActivities,
+    startActivity,
+    stopActivity,
+    getHosStatus,
+    alertThresholds,
+    setAlertThresholds,
+    claimException,
+    setExemptMode,
+  } = useTrips();
   const [elapsedTime, setElapsedTime] = useState(0);
   const [showNoteDialog, setShowNoteDialog] = useState(false);
-  const [selectedActivity, setSelectedActivity] = useState<ActivityStatus | null>(null);
+  const [selectedActivity, setSelectedActivity] = useState<ActivityChoice | null>(null);
   const [noteText, setNoteText] = useState('');
-
-  // Update elapsed time every second
+  const [now, setNow] = useState(new Date());
+  const [claimType, setClaimType] = useState<ClaimableException | null>(null);
+  const [annotation, setAnnotation] = useState('');
+  const [locating, setLocating] = useState(false);
+  const [gpsLocation, setGpsLocation] = useState<CapturedLocation | null>(null);
+  const [manualEntry, setManualEntry] = useState(false);
+  const [manualLocation, setManualLocation] = useState('');
+  const captureRef = useRef(0);
+
+  // Update elapsed time and the HOS clocks every second
   useEffect(() => {
-    if (!activeActivity) {
-      setElapsedTime(0);
-      return;
-    }
-
     const updateElapsed = () => {
+      const current = new Date();
+      setNow(current);
+      if (!activeActivity) {
+        setElapsedTime(0);
+        return;
+      }
       const start = new Date(activeActivity.startTime);
-      const now = new Date();
-      const diff = Math.floor((now.getTime() - start.getTime()) / 1000); // seconds
+      const diff = Math.floor((current.getTime() - start.getTime()) / 1000); // seconds
       setElapsedTime(diff);
     };
 
@@ -66,6 +103,13 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
     }
   };
 
+  // Special categories are named by the category; the status they are logged under is shown alongside
+  const getActivityLabel = (activity: { status: ActivityStatus; specialCategory?: SpecialCategory }) =>
+    activity.specialCategory ? SPECIAL_CATEGORIES[activity.specialCategory].label : getStatusLabel(activity.status);
+
+  const getChoiceLabel = (choice: ActivityChoice) =>
+    isSpecialCategory(choice) ? SPECIAL_CATEGORIES[choice].label : getStatusLabel(choice);
+
   const getStatusColor = (status: ActivityStatus) => {
     switch (status) {
       case 'off-duty':
@@ -96,28 +140,59 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
     }
   };
 
-  const handleStartActivity = (status: ActivityStatus) => {
+  const handleStartActivity = (choice: ActivityChoice) => {
     if (activeActivity) {
       toast.error('Please stop current activity first');
       return;
     }
 
-    setSelectedActivity(status);
+    setSelectedActivity(choice);
     setNoteText('');
     setShowNoteDialog(true);
+    locate();
+  };
+
+  // Every duty-status change needs a location; fall back to manual entry when there is no fix
+  const locate = () => {
+    const id = ++captureRef.current;
+    setLocating(true);
+    setGpsLocation(null);
+    setManualEntry(false);
+    setManualLocation('');
+    captureLocation().then((loc) => {
+      if (id !== captureRef.current) return;
+      setLocating(false);
+      setGpsLocation(loc);
+      if (!loc) setManualEntry(true);
+    });
   };
 
   const handleConfirmStart = () => {
     if (!selectedActivity) return;
 
-    startActivity(selectedActivity, noteText.trim() || undefined);
-    toast.success(`Started ${getStatusLabel(selectedActivity)}`);
+    const location: CapturedLocation | null = manualEntry
+      ? manualLocation.trim() ? { location: manualLocation.trim(), source: 'manual' } : null
+      : gpsLocation;
+    if (!location) {
+      toast.error('A location is required for every duty-status change');
+      return;
+    }
+
+    if (isSpecialCategory(selectedActivity)) {
+      const category = SPECIAL_CATEGORIES[selectedActivity];
+      startActivity(category.status, noteText.trim() || undefined, location, 'driver', selectedActivity);
+    } else {
+      startActivity(selectedActivity, noteText.trim() || undefined, location);
+    }
+    toast.success(`Started ${getChoiceLabel(selectedActivity)}`);
     setShowNoteDialog(false);
     setSelectedActivity(null);
     setNoteText('');
   };
 
   const handleCancelStart = () => {
+    captureRef.current++;
+    setLocating(false);
     setShowNoteDialog(false);
     setSelectedActivity(null);
     setNoteText('');
@@ -131,59 +206,34 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
 
     const stoppedActivity = stopActivity();
     if (stoppedActivity) {
-      toast.success(`Stopped ${getStatusLabel(stoppedActivity.status)} - Duration: ${stoppedActivity.duration.toFixed(2)} hrs`);
+      toast.success(`Stopped ${getActivityLabel(stoppedActivity)} - Duration: ${stoppedActivity.duration.toFixed(2)} hrs`);
     }
   };
 
-  const calculateTodayTotals = () => {
-    const totals = {
-      offDuty: 0,
-      sleeperBerth: 0,
-      driving: 0,
-      onDuty: 0,
-    };
-
-    todayActivities.forEach((activity) => {
-      const duration = activity.duration || 0;
-      switch (activity.status) {
-        case 'off-duty':
-          totals.offDuty += duration;
-          break;
-        case 'sleeper-berth':
-          totals.sleeperBerth += duration;
-          break;
-        case 'driving':
-          totals.driving += duration;
-          break;
-        case 'on-duty-not-driving':
-          totals.onDuty += duration;
-          break;
-      }
-    });
+  const handleOpenClaim = (type: ClaimableException) => {
+    setClaimType(type);
+    setAnnotation('');
+  };
 
-    // Add current active activity
-    if (activeActivity) {
-      const currentDuration = elapsedTime / 3600; // Convert seconds to hours
-      switch (activeActivity.status) {
-        case 'off-duty':
-          totals.offDuty += currentDuration;
-          break;
-        case 'sleeper-berth':
-          totals.sleeperBerth += currentDuration;
-          break;
-        case 'driving':
-          totals.driving += currentDuration;
-          break;
-        case 'on-duty-not-driving':
-          totals.onDuty += currentDuration;
-          break;
-      }
+  const handleConfirmClaim = () => {
+    if (!claimType) return;
+    if (!annotation.trim()) {
+      toast.error('An annotation is required to claim this exception');
+      return;
     }
 
-    return totals;
+    claimException(claimType, annotation);
+    toast.success(`${HOS_EXCEPTION_LABELS[claimType]} claimed`);
+    setClaimType(null);
+    setAnnotation('');
   };
 
-  const todayTotals = calculateTodayTotals();
+  // Today's completed activities plus the time accrued on the running one
+  const todayTotals = summarizeDutyTotals([
+    ...todayActivities,
+    ...(activeActivity ? [{ status: activeActivity.status, duration: elapsedTime / 3600 }] : []),
+  ]);
+  const hos = getHosStatus(now);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -223,9 +273,11 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                         <span className="text-2xl">{getStatusIcon(activeActivity.status)}</span>
                       </div>
                       <div>
-                        <h3 className="text-xl">{getStatusLabel(activeActivity.status)}</h3>
+                        <h3 className="text-xl">{getActivityLabel(activeActivity)}</h3>
                         <p className="text-sm text-gray-500">
+                          {activeActivity.specialCategory && `Logged as ${getStatusLabel(activeActivity.status)} · `}
                           Started at {new Date(activeActivity.startTime).toLocaleTimeString()}
+                          {activeActivity.recordOrigin === 'auto' && ' · recorded automatically'}
                         </p>
                       </div>
                     </div>
@@ -313,12 +365,127 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                     <span>Off Duty</span>
                   </Button>
                 </div>
+
+                {/* Special driving categories */}
+                <div className="mt-6 pt-4 border-t">
+                  <p className="text-sm text-gray-500 mb-3">Moving the truck without driving time</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <Button
+                      variant="outline"
+                      className={`h-20 flex-col gap-1 ${activeActivity ? 'opacity-50' : ''}`}
+                      onClick={() => handleStartActivity('personal-conveyance')}
+                      disabled={!!activeActivity}
+                    >
+                      <span>Personal Conveyance</span>
+                      <span className="text-xs text-gray-500">Logged as Off Duty</span>
+                    </Button>
+
+                    <Button
+                      variant="outline"
+                      className={`h-20 flex-col gap-1 ${activeActivity ? 'opacity-50' : ''}`}
+                      onClick={() => handleStartActivity('yard-move')}
+                      disabled={!!activeActivity}
+                    >
+                      <span>Yard Move</span>
+                      <span className="text-xs text-gray-500">Logged as On Duty</span>
+                    </Button>
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </div>
 
           {/* Today's Summary & Activities */}
           <div className="space-y-6">
+            {/* Live HOS Clocks */}
+            <HosClocks hos={hos} />
+
+            {/* HOS Exceptions */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="size-5" />
+                  HOS Exceptions
+                </CardTitle>
+                <CardDescription>Claim an exception for the current shift. An annotation is required.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleOpenClaim('adverse-conditions')}
+                    disabled={hos.exceptions.some((e) => e.type === 'adverse-conditions')}
+                  >
+                    Adverse Driving Conditions (+{hos.rules.adverseExtension}h)
+                  </Button>
+                  {hos.rules.shortHaulWindow !== null && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleOpenClaim('short-haul-16')}
+                      disabled={!hos.shortHaulAvailable || hos.exceptions.some((e) => e.type === 'short-haul-16')}
+                    >
+                      {hos.rules.shortHaulWindow}-Hour Short-Haul
+                    </Button>
+                  )}
+                </div>
+                {hos.rules.shortHaulWindow !== null && !hos.shortHaulAvailable && (
+                  <p className="text-xs text-gray-500">
+                    The {hos.rules.shortHaulWindow}-hour extension has already been used this cycle.
+                  </p>
+                )}
+                {hos.exceptions.map((e) => (
+                  <div key={e.id} className="p-2 bg-amber-50 border border-amber-200 rounded text-sm">
+                    <span className="font-semibold">{HOS_EXCEPTION_LABELS[e.type]}</span>
+                    <span className="text-gray-600"> — {e.annotation}</span>
+                  </div>
+                ))}
+                {hos.rules.shortHaulExemption && (
+                  <div className="flex items-center justify-between pt-3 border-t">
+                    <div>
+                      <Label htmlFor="exempt-mode">{HOS_EXCEPTION_LABELS['short-haul-exempt']}</Label>
+                      <p className="text-xs text-gray-500">
+                        Stay within {hos.rules.shortHaulExemption.radius} air-miles and return within{' '}
+                        {hos.rules.shortHaulExemption.window} hours ({exceptionCitation('short-haul-exempt', hos.rules)})
+                      </p>
+                    </div>
+                    <Switch
+                      id="exempt-mode"
+                      checked={hos.exempt}
+                      onCheckedChange={(checked) => {
+                        setExemptMode(checked);
+                        toast.info(checked ? 'Short-haul exempt mode on' : 'Back to regular logging');
+                      }}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Driving Alert Settings */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Bell className="size-5" />
+                  Driving Alerts
+                </CardTitle>
+                <CardDescription>Warn me this many minutes before a limit while driving</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  value={alertThresholds.map(String)}
+                  onValueChange={(values) => setAlertThresholds(values.map(Number))}
+                >
+                  {ALERT_OPTIONS.map((minutes) => (
+                    <ToggleGroupItem key={minutes} value={String(minutes)} className="px-3">
+                      {minutes} min
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </CardContent>
+            </Card>
+
             {/* Today's Summary */}
             <Card>
               <CardHeader>
@@ -356,10 +523,10 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                 </div>
 
                 {/* HOS Compliance Warning */}
-                {todayTotals.driving >= 10 && (
+                {hos.driving.remaining <= 1 && (
                   <div className="mt-4 bg-amber-50 border border-amber-200 rounded-lg p-3">
                     <p className="text-sm text-amber-800">
-                      ⚠️ Approaching 11-hour driving limit ({todayTotals.driving.toFixed(2)}/11 hrs)
+                      ⚠️ Approaching {hos.driving.limit}-hour driving limit ({hos.driving.used.toFixed(2)}/{hos.driving.limit} hrs)
                     </p>
                   </div>
                 )}
@@ -381,11 +548,12 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                     <div className="p-4 bg-blue-50 border-2 border-blue-300 rounded-lg">
                       <div className="flex items-start justify-between mb-2">
                         <Badge className={`${getStatusColor(activeActivity.status)} text-white`}>
-                          {getStatusLabel(activeActivity.status)}
+                          {getActivityLabel(activeActivity)}
                         </Badge>
                         <Badge variant="outline" className="bg-blue-500 text-white border-blue-600">
                           In Progress
                         </Badge>
+                        {activeActivity.recordOrigin === 'auto' && <Badge variant="outline">Auto</Badge>}
                       </div>
                       <div className="flex items-center gap-2 text-sm text-gray-700 mb-1">
                         <Clock className="size-4" />
@@ -393,7 +561,8 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                       </div>
                       <div className="flex items-center gap-2 text-sm text-gray-700">
                         <MapPin className="size-4" />
-                        <span>{activeActivity.location}</span>
+                        <span>{activeActivity.location || 'Location not recorded'}</span>
+                        {activeActivity.locationSource === 'manual' && <Badge variant="outline">Manual</Badge>}
                       </div>
                       {activeActivity.notes && (
                         <div className="mt-2 p-2 bg-white rounded border border-blue-200 text-sm text-gray-600 italic">
@@ -411,9 +580,12 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                   {todayActivities.map((activity) => (
                     <div key={activity.id} className="p-4 bg-white border rounded-lg hover:bg-gray-50 transition-colors">
                       <div className="flex items-start justify-between mb-2">
-                        <Badge className={`${getStatusColor(activity.status)} text-white`}>
-                          {getStatusLabel(activity.status)}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge className={`${getStatusColor(activity.status)} text-white`}>
+                            {getActivityLabel(activity)}
+                          </Badge>
+                          {activity.recordOrigin === 'auto' && <Badge variant="outline">Auto</Badge>}
+                        </div>
                         <span className="text-xs text-gray-500">
                           {activity.duration?.toFixed(2)} hrs
                         </span>
@@ -426,7 +598,8 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
                       </div>
                       <div className="flex items-center gap-2 text-sm text-gray-600">
                         <MapPin className="size-4" />
-                        <span>{activity.location}</span>
+                        <span>{activity.location || 'Location not recorded'}</span>
+                        {activity.locationSource === 'manual' && <Badge variant="outline">Manual</Badge>}
                       </div>
                       {activity.notes && (
                         <div className="mt-2 text-xs text-gray-500 italic">
@@ -453,11 +626,50 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
       <Dialog open={showNoteDialog} onOpenChange={setShowNoteDialog}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
-            <DialogTitle>Add Note</DialogTitle>
+            <DialogTitle>{selectedActivity ? `Start ${getChoiceLabel(selectedActivity)}` : 'Add Note'}</DialogTitle>
             <DialogDescription>
-              Add a note for the activity you are starting.
+              Your location is recorded with the duty-status change. Add a note if needed.
+              {selectedActivity === 'personal-conveyance' &&
+                ' Personal conveyance is logged as off duty, with the location recorded to within about 10 miles.'}
+              {selectedActivity === 'yard-move' && ' Yard moves are logged as on duty, not driving.'}
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="manual-location">Location</Label>
+            {locating ? (
+              <p className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="size-4 animate-spin" />
+                Getting GPS location…
+              </p>
+            ) : manualEntry ? (
+              <>
+                <Input
+                  id="manual-location"
+                  value={manualLocation}
+                  onChange={(e) => setManualLocation(e.target.value)}
+                  placeholder="City, ST"
+                />
+                <p className="text-xs text-gray-500">
+                  {gpsLocation ? 'Entered locations are flagged as manual.' : 'No GPS fix available. The location will be flagged as manual.'}{' '}
+                  <button type="button" className="text-blue-600 hover:underline" onClick={locate}>
+                    Retry GPS
+                  </button>
+                </p>
+              </>
+            ) : (
+              gpsLocation && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="flex items-center gap-2 text-sm">
+                    <MapPin className="size-4" />
+                    {gpsLocation.location}
+                  </p>
+                  <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => setManualEntry(true)}>
+                    Enter manually
+                  </button>
+                </div>
+              )
+            )}
+          </div>
           <div className="space-y-4">
             <Label htmlFor="note">Note</Label>
             <Textarea
@@ -476,12 +688,43 @@ export function ActivityScreen({ onNavigate }: ActivityScreenProps) {
             </Button>
             <Button
               onClick={handleConfirmStart}
+              disabled={locating}
             >
               Start Activity
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Exception Claim Dialog */}
+      <Dialog open={claimType !== null} onOpenChange={(open) => !open && setClaimType(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{claimType && HOS_EXCEPTION_LABELS[claimType]}</DialogTitle>
+            <DialogDescription>
+              {claimType && `${exceptionCitation(claimType, hos.rules)} — `}
+              Describe why the exception applies. This annotation is kept with your log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Label htmlFor="annotation">Annotation</Label>
+            <Textarea
+              id="annotation"
+              value={annotation}
+              onChange={(e) => setAnnotation(e.target.value)}
+              placeholder="e.g. Unexpected snowstorm closed I-80 near Laramie"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClaimType(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmClaim} disabled={!annotation.trim()}>
+              Claim Exception
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
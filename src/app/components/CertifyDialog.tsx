@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { SignaturePad } from './SignaturePad';
+import { useAuth } from '../contexts/AuthContext';
+import { useTrips } from '../contexts/TripContext';
+import { CERTIFICATION_STATEMENT, SignatureMethod } from '../utils/certification';
+import { toast } from 'sonner';
+
+interface CertifyDialogProps {
+  date: string | null; // log date to certify; open while set
+  recertify?: boolean; // the day was edited after it was certified
+  onOpenChange: (open: boolean) => void;
+}
+
+// Certify a day's log with a drawn signature or a typed attestation
+export function CertifyDialog({ date, recertify = false, onOpenChange }: CertifyDialogProps) {
+  const { user } = useAuth();
+  const { certifyLog } = useTrips();
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [drawn, setDrawn] = useState<string | null>(null);
+  const [typedName, setTypedName] = useState('');
+  const [agreed, setAgreed] = useState(false);
+
+  // Start blank for each day
+  useEffect(() => {
+    setMethod('drawn');
+    setDrawn(null);
+    setTypedName(user?.name || '');
+    setAgreed(false);
+  }, [date]);
+
+  if (!date) return null;
+
+  const signature = method === 'drawn' ? drawn : typedName.trim();
+
+  const handleCertify = () => {
+    if (!signature || !agreed) return;
+    certifyLog(date, method, signature);
+    toast.success(`Log for ${new Date(`${date}T00:00:00`).toLocaleDateString()} certified`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{recertify ? 'Recertify' : 'Certify'} Daily Log</DialogTitle>
+          <DialogDescription>
+            {new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+              weekday: 'long',
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+            {recertify && ' — this log was edited after it was certified.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs
+          value={method}
+          onValueChange={(v) => {
+            setMethod(v as SignatureMethod);
+            setDrawn(null); // the pad is cleared when its tab unmounts
+          }}
+        >
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="drawn">Draw Signature</TabsTrigger>
+            <TabsTrigger value="typed">Type Name</TabsTrigger>
+          </TabsList>
+          <TabsContent value="drawn" className="mt-4">
+            <SignaturePad key={date} onChange={setDrawn} />
+          </TabsContent>
+          <TabsContent value="typed" className="mt-4 space-y-2">
+            <Label htmlFor="typed-signature">Full Name</Label>
+            <Input id="typed-signature" value={typedName} onChange={(e) => setTypedName(e.target.value)} />
+          </TabsContent>
+        </Tabs>
+        <div className="flex items-start gap-2">
+          <Checkbox id="certify-agree" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+          <Label htmlFor="certify-agree" className="text-sm leading-snug font-normal">
+            {CERTIFICATION_STATEMENT}
+          </Label>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCertify} disabled={!signature || !agreed}>
+            Certify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
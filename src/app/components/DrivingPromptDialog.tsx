@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { useTrips } from '../contexts/TripContext';
+
+// Asks the driver for a new duty status once the vehicle has been stopped while driving
+export function DrivingPromptDialog() {
+  const { drivingPrompt, answerDrivingPrompt } = useTrips();
+  const [, setTick] = useState(0);
+
+  // Re-render every second for the countdown
+  useEffect(() => {
+    if (!drivingPrompt) return;
+    const interval = setInterval(() => setTick((t) => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [drivingPrompt]);
+
+  if (!drivingPrompt) return null;
+
+  const now = Date.now();
+  const secondsLeft = Math.max(0, Math.ceil((drivingPrompt.deadline - now) / 1000));
+  const stoppedMinutes = Math.floor((now - drivingPrompt.stoppedAt) / 60000);
+
+  return (
+    // Stays open until a status is picked or the prompt times out
+    <Dialog open onOpenChange={() => {}}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Vehicle stopped</DialogTitle>
+          <DialogDescription>
+            The vehicle has not moved for {stoppedMinutes} minutes. Select your duty status. If you do not answer,
+            you will be switched to On Duty in {secondsLeft}s.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={() => answerDrivingPrompt('on-duty-not-driving')}>
+            📋 On Duty
+          </Button>
+          <Button variant="outline" onClick={() => answerDrivingPrompt('off-duty')}>
+            🏠 Off Duty
+          </Button>
+          <Button variant="outline" onClick={() => answerDrivingPrompt('sleeper-berth')}>
+            🛏️ Sleeper Berth
+          </Button>
+          <Button variant="outline" onClick={() => answerDrivingPrompt('driving')}>
+            🚚 Still Driving
+          </Button>
+        </div>
+        <DialogFooter>
+          <p className="text-xs text-gray-500">Choosing a status here is recorded as driver-entered.</p>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,45 @@
 import React from 'react';
 import { ELDLog, ELDEntry } from '../contexts/TripContext';
+import {
+  summarizeDutyTotals,
+  violationsForDay,
+  sleeperPairsForDay,
+  periodsFromLogs,
+  startOfDay,
+  DutyPeriod,
+  RuleSwitch,
+  HosException,
+  HOS_EXCEPTION_LABELS,
+  exceptionCitation,
+  ViolationSeverity,
+  SPECIAL_CATEGORIES,
+} from '../utils/hos';
+import { getRuleSet, ruleSetForJurisdiction, HosRuleSet } from '../utils/hosRules';
+import { CERTIFICATION_STATEMENT, CertificationStatus } from '../utils/certification';
 
 interface ELDLogBookProps {
   log: ELDLog;
   driverName: string;
   licenseNumber: string;
+  history?: DutyPeriod[]; // duty history used for compliance; defaults to this log alone
+  rules?: HosRuleSet;
+  ruleSwitches?: RuleSwitch[]; // border crossings that changed the applicable rules
+  exceptions?: HosException[]; // exceptions the driver claimed
+  projected?: boolean; // a planned day rather than a recorded one; shown with a watermark
+  certification?: CertificationStatus; // the driver's certification of this day, if any
 }
 
-export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps) {
+export function ELDLogBook({
+  log,
+  driverName,
+  licenseNumber,
+  history,
+  rules = getRuleSet(),
+  ruleSwitches = [],
+  exceptions = [],
+  projected = false,
+  certification,
+}: ELDLogBookProps) {
   // Convert time string (HH:MM) to decimal hours
   const timeToDecimal = (time: string): number => {
     const [hours, minutes] = time.split(':').map(Number);
@@ -48,20 +80,48 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
 
   const graphPoints = createGraphPoints();
 
-  // Calculate totals
-  const totals = {
-    offDuty: log.logs
-      .filter((l) => l.status === 'off-duty')
-      .reduce((sum, l) => sum + l.duration, 0),
-    sleeperBerth: log.logs
-      .filter((l) => l.status === 'sleeper-berth')
-      .reduce((sum, l) => sum + l.duration, 0),
-    driving: log.logs
-      .filter((l) => l.status === 'driving')
-      .reduce((sum, l) => sum + l.duration, 0),
-    onDuty: log.logs
-      .filter((l) => l.status === 'on-duty-not-driving')
-      .reduce((sum, l) => sum + l.duration, 0),
+  // Totals and compliance come from the HOS engine
+  const totals = summarizeDutyTotals(log.logs);
+  const dutyHistory = history ?? periodsFromLogs([log]);
+  // Projected days lie in the future, so evaluate them through the end of the planned history
+  const hosOptions = {
+    switches: ruleSwitches,
+    exceptions,
+    asOf: projected ? Math.max(Date.now(), ...dutyHistory.map((p) => p.end)) : undefined,
+  };
+  const violations = violationsForDay(dutyHistory, log.date, rules, hosOptions);
+  const sleeperPairs = sleeperPairsForDay(dutyHistory, log.date, rules, hosOptions);
+
+  // Position of an epoch timestamp on this log's 24-hour axis, clamped to the day
+  const dayStart = startOfDay(log.date);
+  const dayEnd = dayStart + 24 * 3600000;
+  const daySwitches = ruleSwitches.filter((s) => s.at >= dayStart && s.at < dayEnd);
+  // Exceptions claimed on this day, plus exempt mode when it covered any part of it
+  const dayExceptions = exceptions.filter((e) =>
+    e.type === 'short-haul-exempt'
+      ? e.claimedAt < dayEnd && (e.endedAt ?? Infinity) > dayStart
+      : e.claimedAt >= dayStart && e.claimedAt < dayEnd);
+  // Personal conveyance and yard moves; already counted in the totals under the status they are logged as
+  const specialEntries = log.logs.filter((e) => e.specialCategory);
+  const timeToHour = (ms: number): number => Math.min(24, Math.max(0, (ms - dayStart) / 3600000));
+
+  const formatClock = (ms: number): string =>
+    new Date(ms).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+  const formatOverBy = (hours: number): string => {
+    const minutes = Math.round(hours * 60);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  const getSeverityColor = (severity: ViolationSeverity) => {
+    switch (severity) {
+      case 'egregious':
+        return 'bg-red-700 text-white';
+      case 'serious':
+        return 'bg-red-500 text-white';
+      default:
+        return 'bg-amber-400 text-black';
+    }
   };
 
   // Calculate total miles
@@ -110,14 +170,23 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
   };
 
   return (
-    <div className="bg-white border-2 border-black p-6 print:p-4">
+    <div className="relative bg-white border-2 border-black p-6 print:p-4">
+      {projected && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center overflow-hidden">
+          <span className="text-9xl font-bold uppercase tracking-widest text-red-600/15 -rotate-[30deg] select-none">
+            Projected
+          </span>
+        </div>
+      )}
       {/* Header Section */}
       <div className="border-2 border-black mb-4">
         <div className="bg-gray-100 border-b-2 border-black p-2 text-center">
           <h1 className="text-lg uppercase tracking-wide">
             Driver's Daily Log - Electronic Logging Device (ELD)
           </h1>
-          <p className="text-xs mt-1">As Required by 49 CFR Part 395</p>
+          <p className="text-xs mt-1">
+            {projected ? 'Projected from trip plan — not a record of duty status' : 'As Required by 49 CFR Part 395'}
+          </p>
         </div>
         
         {/* Driver Information */}
@@ -234,6 +303,69 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
                   />
                 ))}
 
+                {/* Split sleeper-berth pairs */}
+                {sleeperPairs.map((pair, pairIdx) =>
+                  [pair.first, pair.second].map((period, periodIdx) => {
+                    const x1 = timeToHour(period.start) * 40;
+                    const x2 = timeToHour(period.end) * 40;
+                    if (x2 <= x1) return null;
+                    return (
+                      <g key={`pair-${pairIdx}-${periodIdx}`}>
+                        <rect
+                          x={x1}
+                          y={142}
+                          width={x2 - x1}
+                          height={136}
+                          fill="#9333EA"
+                          fillOpacity="0.08"
+                          stroke="#9333EA"
+                          strokeDasharray="4,3"
+                        />
+                        <text x={x1 + 4} y={154} fontSize="10" fill="#6B21A8">
+                          Split {pairIdx + 1} ({pair.label})
+                        </text>
+                      </g>
+                    );
+                  })
+                )}
+
+                {/* Driving past a limit */}
+                {violations.map((v, idx) => {
+                  const x1 = timeToHour(v.start) * 40;
+                  const x2 = timeToHour(v.end) * 40;
+                  return (
+                    <rect
+                      key={`violation-${idx}`}
+                      x={x1}
+                      y={0}
+                      width={Math.max(2, x2 - x1)}
+                      height={280}
+                      fill="#DC2626"
+                      fillOpacity="0.15"
+                    >
+                      <title>{`${v.message} (${v.citation})`}</title>
+                    </rect>
+                  );
+                })}
+
+                {/* Border crossings that switched the rule set */}
+                {daySwitches.map((sw, idx) => (
+                  <g key={`switch-${idx}`}>
+                    <line
+                      x1={timeToHour(sw.at) * 40}
+                      y1="0"
+                      x2={timeToHour(sw.at) * 40}
+                      y2="280"
+                      stroke="#DC2626"
+                      strokeWidth="2"
+                      strokeDasharray="6,3"
+                    />
+                    <text x={timeToHour(sw.at) * 40 + 4} y={12} fontSize="10" fill="#DC2626">
+                      → {sw.jurisdiction}
+                    </text>
+                  </g>
+                ))}
+
                 {/* Status change lines */}
                 {log.logs.map((entry, idx) => {
                   const startHour = timeToDecimal(entry.startTime);
@@ -267,6 +399,7 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
                         y2={y}
                         stroke={getStatusColor(entry.status)}
                         strokeWidth="4"
+                        strokeDasharray={entry.specialCategory ? '8,4' : undefined}
                       />
                       
                       {/* Vertical connecting lines */}
@@ -322,6 +455,11 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
                         stroke="black"
                         strokeWidth="1"
                       />
+                      {entry.specialCategory && (
+                        <text x={startHour * 40 + 6} y={y - 8} fontSize="10" fill={getStatusColor(entry.status)}>
+                          {SPECIAL_CATEGORIES[entry.specialCategory].code}
+                        </text>
+                      )}
                     </g>
                   );
                 })}
@@ -344,6 +482,61 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
         </div>
       </div>
 
+      {/* Rule set changes */}
+      {daySwitches.length > 0 && (
+        <div className="border-2 border-black mb-4 p-3 text-xs">
+          <h3 className="uppercase mb-2">Rule Set Changes</h3>
+          {daySwitches.map((sw, idx) => (
+            <div key={`switch-row-${idx}`} className="flex gap-4">
+              <span className="font-semibold">{formatClock(sw.at)}</span>
+              <span>
+                Entered {sw.jurisdiction === 'CA' ? 'Canada' : 'the United States'}
+                {sw.location ? ` near ${sw.location}` : ''} — {ruleSetForJurisdiction(rules, sw.jurisdiction).name}
+                {' '}applies from this point
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Special driving categories */}
+      {specialEntries.length > 0 && (
+        <div className="border-2 border-black mb-4 p-3 text-xs">
+          <h3 className="uppercase mb-2">Special Driving Categories (dashed on graph)</h3>
+          {specialEntries.map((entry) => {
+            const category = SPECIAL_CATEGORIES[entry.specialCategory!];
+            return (
+              <div key={`special-row-${entry.id}`} className="flex gap-4">
+                <span className="font-semibold">
+                  {entry.startTime}–{entry.endTime}
+                </span>
+                <span>
+                  {category.label} ({category.code}) — {entry.duration.toFixed(1)} hrs counted as{' '}
+                  {category.status === 'off-duty' ? 'off duty' : 'on duty not driving'}
+                  {entry.location ? `, ${entry.location}` : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Paired rest periods */}
+      {sleeperPairs.length > 0 && (
+        <div className="border-2 border-black mb-4 p-3 text-xs">
+          <h3 className="uppercase mb-2">Split Sleeper-Berth Pairs</h3>
+          {sleeperPairs.map((pair, idx) => (
+            <div key={`pair-row-${idx}`} className="flex gap-4">
+              <span className="font-semibold">Split {idx + 1} ({pair.label})</span>
+              <span>
+                {formatClock(pair.first.start)}–{formatClock(pair.first.end)} paired with{' '}
+                {formatClock(pair.second.start)}–{formatClock(pair.second.end)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary Totals */}
       <div className="grid grid-cols-4 border-2 border-black mb-4">
         <div className="border-r border-black p-3 text-center">
@@ -396,9 +589,14 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
                   {entry.status === 'driving' && 'D'}
                   {entry.status === 'on-duty-not-driving' && 'ON'}
                 </div>
+                {entry.specialCategory && (
+                  <span className="ml-1 text-xs font-semibold">{SPECIAL_CATEGORIES[entry.specialCategory].code}</span>
+                )}
+                {entry.recordOrigin === 'auto' && <span className="ml-1 text-xs text-gray-500">auto</span>}
               </div>
               <div className="col-span-3 border-r border-gray-300 p-2 truncate">
                 {entry.location}
+                {entry.locationSource === 'manual' && <span className="ml-1 text-xs text-gray-500">(manual)</span>}
               </div>
               <div className="col-span-2 border-r border-gray-300 p-2 text-center">
                 {entry.odometer.toLocaleString()}
@@ -408,6 +606,7 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
               </div>
               <div className="col-span-2 p-2 truncate text-gray-600">
                 {entry.notes || '—'}
+                {entry.supersedes && <span className="ml-1 text-gray-500">(edited)</span>}
               </div>
             </div>
           ))}
@@ -418,13 +617,17 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
       <div className="border-2 border-black p-4">
         <div className="mb-4">
           <h3 className="text-sm uppercase mb-2">Driver Certification</h3>
-          <p className="text-xs mb-4">
-            I hereby certify that my data entries and my record of duty status for this 24-hour
-            period are true and correct.
-          </p>
+          <p className="text-xs mb-4">{CERTIFICATION_STATEMENT}</p>
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <div className="border-b-2 border-black h-12 mb-1"></div>
+              <div className="border-b-2 border-black h-12 mb-1 flex items-end">
+                {certification?.current?.method === 'drawn' && (
+                  <img src={certification.current.signature} alt="Driver signature" className="h-12 object-contain" />
+                )}
+                {certification?.current?.method === 'typed' && (
+                  <span className="pb-1 text-xl italic font-serif">/s/ {certification.current.signature}</span>
+                )}
+              </div>
               <span className="text-xs">Driver Signature</span>
             </div>
             <div>
@@ -434,6 +637,15 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
               <span className="text-xs">Date</span>
             </div>
           </div>
+          {certification?.current && (
+            <p className="text-xs text-gray-600 mt-2">
+              Certified {new Date(certification.current.certifiedAt).toLocaleString()}
+              {certification.current.method === 'typed' && ' by typed attestation'}
+            </p>
+          )}
+          {certification?.needsRecertification && (
+            <p className="text-xs text-red-600 mt-2">Edited after certification — recertification required</p>
+          )}
         </div>
 
         {/* Compliance Information */}
@@ -442,7 +654,9 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
             <div>
               <span className="uppercase text-gray-600">HOS Compliance:</span>
               <span className="ml-2 font-semibold">
-                {totals.driving <= 11 ? '✓ Compliant' : '⚠ Violation - Driving exceeds 11 hours'}
+                {violations.length === 0
+                  ? '✓ Compliant'
+                  : `⚠ ${violations.length} Violation${violations.length > 1 ? 's' : ''}`}
               </span>
             </div>
             <div>
@@ -450,8 +664,39 @@ export function ELDLogBook({ log, driverName, licenseNumber }: ELDLogBookProps)
               <span className="ml-2 font-semibold">TruckLog Pro ELD System</span>
             </div>
           </div>
+          {violations.length > 0 && (
+            <div className="mt-2 text-xs space-y-1">
+              {violations.map((v, idx) => (
+                <div key={`violation-row-${idx}`} className="flex flex-wrap items-center gap-2">
+                  <span className={`px-1.5 py-0.5 rounded uppercase text-[10px] ${getSeverityColor(v.severity)}`}>
+                    {v.severity}
+                  </span>
+                  <span className="font-semibold">{v.message}</span>
+                  <span className="text-gray-600">
+                    {formatClock(v.start)}–{formatClock(v.end)} · {formatOverBy(v.overBy)} over · {v.citation}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {dayExceptions.length > 0 && (
+            <div className="mt-2 text-xs space-y-1">
+              <span className="uppercase text-gray-600">Exceptions Claimed:</span>
+              {dayExceptions.map((e) => (
+                <div key={e.id}>
+                  <span className="font-semibold">
+                    {HOS_EXCEPTION_LABELS[e.type]} ({exceptionCitation(e.type, rules)})
+                  </span>
+                  <span className="ml-2 text-gray-600">
+                    {e.claimedAt >= dayStart ? `at ${formatClock(e.claimedAt)}` : 'in effect'}
+                    {e.annotation ? ` — "${e.annotation}"` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="mt-2 text-xs text-gray-500">
-            Generated per FMCSA 49 CFR Part 395 - Hours of Service of Drivers
+            Hours of Service evaluated under {rules.name} ({rules.citation})
           </div>
         </div>
       </div>
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { ELDEntry, ELDLog } from '../contexts/TripContext';
+import { DUTY_STATUS_LABELS, DutyStatus } from '../utils/hos';
+import { overlappingEntries, EntryChanges, MIN_ANNOTATION_LENGTH } from '../utils/logEdits';
+
+interface EntryEditDialogProps {
+  entry: ELDEntry | null; // open while an entry is set
+  log?: ELDLog; // the entry's day; the edit may not overlap its other records
+  certified?: boolean; // the day is certified, so the edit will need recertification
+  onOpenChange: (open: boolean) => void;
+  onSave: (changes: EntryChanges, annotation: string) => void;
+}
+
+interface Draft {
+  status: DutyStatus;
+  startTime: string;
+  endTime: string;
+  location: string;
+  notes: string;
+}
+
+const toDraft = (entry: ELDEntry): Draft => ({
+  status: entry.status,
+  startTime: entry.startTime,
+  endTime: entry.endTime,
+  location: entry.location,
+  notes: entry.notes || '',
+});
+
+// Time in an entry past midnight is written with an end time earlier than the start
+const runsOvernight = (entry: Pick<ELDEntry, 'startTime' | 'endTime'>) => entry.endTime < entry.startTime;
+
+export function EntryEditDialog({ entry, log, certified = false, onOpenChange, onSave }: EntryEditDialogProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [overnight, setOvernight] = useState(false);
+  const [annotation, setAnnotation] = useState('');
+
+  // Start from the recorded values each time an entry is opened
+  useEffect(() => {
+    setDraft(entry ? toDraft(entry) : null);
+    setOvernight(!!entry && runsOvernight(entry));
+    setAnnotation('');
+  }, [entry]);
+
+  if (!entry || !draft) return null;
+
+  const original = toDraft(entry);
+  const changes: EntryChanges = {};
+  (Object.keys(original) as Array<keyof Draft>).forEach((key) => {
+    if (draft[key] !== original[key]) Object.assign(changes, { [key]: draft[key] });
+  });
+  const changed = Object.keys(changes).length > 0;
+  let timeError: string | null = null;
+  if (!draft.startTime || !draft.endTime) {
+    timeError = 'Enter a start and an end time.';
+  } else if (!overnight && draft.endTime <= draft.startTime) {
+    timeError = 'The end time must be after the start time. Tick "Ends after midnight" for time that runs into the next day.';
+  } else if (overnight && !runsOvernight(draft)) {
+    timeError = 'An entry that ends after midnight needs an end time earlier in the day than its start time.';
+  } else if (log) {
+    const [overlap] = overlappingEntries(log, entry, draft);
+    if (overlap) {
+      timeError = `Overlaps ${DUTY_STATUS_LABELS[overlap.status]} ${overlap.startTime}–${overlap.endTime}. Edit that record first.`;
+    }
+  }
+  const validAnnotation = annotation.trim().length >= MIN_ANNOTATION_LENGTH;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Edit Log Entry</DialogTitle>
+          <DialogDescription>
+            The original record is kept as an inactive record and the edit is shown in the entry's history.
+            {certified && ' This day is certified; saving the edit means it has to be certified again.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={draft.status} onValueChange={(v) => setDraft({ ...draft, status: v as DutyStatus })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DUTY_STATUS_LABELS) as DutyStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {DUTY_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-start">Start Time</Label>
+              <Input
+                id="edit-start"
+                type="time"
+                value={draft.startTime}
+                onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-end">End Time</Label>
+              <Input
+                id="edit-end"
+                type="time"
+                value={draft.endTime}
+                onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="edit-overnight" checked={overnight} onCheckedChange={(checked) => setOvernight(checked === true)} />
+            <Label htmlFor="edit-overnight" className="font-normal">
+              Ends after midnight
+            </Label>
+          </div>
+          {changed && timeError && <p className="text-sm text-red-600">{timeError}</p>}
+          <div className="space-y-2">
+            <Label htmlFor="edit-location">Location</Label>
+            <Input
+              id="edit-location"
+              value={draft.location}
+              onChange={(e) => setDraft({ ...draft, location: e.target.value })}
+              placeholder="City, ST"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-notes">Notes</Label>
+            <Input id="edit-notes" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-annotation">Annotation</Label>
+            <Textarea
+              id="edit-annotation"
+              value={annotation}
+              onChange={(e) => setAnnotation(e.target.value)}
+              placeholder="Why is this record being changed?"
+            />
+            <p className="text-xs text-gray-500">Required, at least {MIN_ANNOTATION_LENGTH} characters.</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(changes, annotation)} disabled={!changed || !!timeError || !validAnnotation}>
+            Save Edit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
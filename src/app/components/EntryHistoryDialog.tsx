@@ -0,0 +1,88 @@
+import React from 'react';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import type { ELDEntry, ELDLog } from '../contexts/TripContext';
+import { DUTY_STATUS_LABELS, DutyStatus } from '../utils/hos';
+import { diffEntries, entryVersions, rejectedProposals, EDITABLE_FIELD_LABELS, FieldChange } from '../utils/logEdits';
+
+interface EntryHistoryDialogProps {
+  log: ELDLog;
+  entry: ELDEntry | null; // the active record; open while set
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatValue = (change: FieldChange, value: string): string => {
+  if (!value) return '—';
+  return change.field === 'status' ? DUTY_STATUS_LABELS[value as DutyStatus] : value;
+};
+
+const editTime = (entry: ELDEntry) => (entry.editedAt ? new Date(entry.editedAt).getTime() : 0);
+
+// Each edit made to an entry and each carrier proposal rejected for it, newest first, down to the original record
+export function EntryHistoryDialog({ log, entry, onOpenChange }: EntryHistoryDialogProps) {
+  if (!entry) return null;
+  const versions = entryVersions(log, entry);
+  const edits = versions.slice(1).map((version, i) => ({ version, changes: diffEntries(versions[i], version) }));
+  const rejected = rejectedProposals(log, entry).map((version) => ({
+    version,
+    changes: diffEntries(versions.find((v) => v.id === version.supersedes)!, version),
+  }));
+  const history = [...edits, ...rejected].sort((a, b) => editTime(b.version) - editTime(a.version));
+  const original = versions[0];
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Entry History</DialogTitle>
+          <DialogDescription>
+            {edits.length} edit{edits.length === 1 ? '' : 's'}
+            {rejected.length > 0 && `, ${rejected.length} rejected proposal${rejected.length === 1 ? '' : 's'}`}. Replaced
+            records and rejected proposals are kept as inactive records.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {history.map(({ version, changes }) => (
+            <div key={version.id} className="p-3 border rounded-lg text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold">
+                  {version.editedAt ? new Date(version.editedAt).toLocaleString() : 'Edited'}
+                  {version.recordOrigin === 'carrier' && ' · proposed by carrier'}
+                </span>
+                <Badge variant="outline">
+                  {version.id === entry.id
+                    ? 'Active'
+                    : version.recordStatus === 'inactive-change-rejected'
+                      ? 'Inactive – change rejected'
+                      : 'Inactive – changed'}
+                </Badge>
+              </div>
+              {changes.map((change) => (
+                <p key={change.field} className="text-gray-700">
+                  <span className="text-gray-500">{EDITABLE_FIELD_LABELS[change.field]}:</span>{' '}
+                  <span className="line-through text-red-600">{formatValue(change, change.from)}</span> →{' '}
+                  <span className="text-green-700">{formatValue(change, change.to)}</span>
+                </p>
+              ))}
+              {version.annotation && <p className="mt-2 text-xs text-gray-600 italic">“{version.annotation}”</p>}
+            </div>
+          ))}
+          {/* An entry with only rejected proposals is still its own original, active record */}
+          {versions.length > 1 && (
+            <div className="p-3 border border-dashed rounded-lg text-sm text-gray-600">
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-semibold">Original record</span>
+                <Badge variant="outline">Inactive – changed</Badge>
+              </div>
+              <p>
+                {DUTY_STATUS_LABELS[original.status]} · {original.startTime}–{original.endTime}
+                {original.location && ` · ${original.location}`}
+              </p>
+              {original.notes && <p className="text-xs italic">{original.notes}</p>}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
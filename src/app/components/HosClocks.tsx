@@ -0,0 +1,66 @@
+import React from 'react';
+import { Gauge, Timer, Coffee, CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { HosClock, HosStatus } from '../utils/hos';
+
+interface HosClocksProps {
+  hos: HosStatus;
+}
+
+// Hours remaining at which a clock turns amber, then red
+const WARNING_HOURS = 1;
+const CRITICAL_HOURS = 0.25;
+
+const formatRemaining = (hours: number): string => {
+  const total = Math.max(0, Math.floor(hours * 3600));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+};
+
+const getClockColor = (clock: HosClock) => {
+  if (clock.remaining <= CRITICAL_HOURS) return 'bg-red-50 border-red-300 text-red-700';
+  if (clock.remaining <= WARNING_HOURS) return 'bg-amber-50 border-amber-300 text-amber-700';
+  return 'bg-white border-gray-200 text-gray-900';
+};
+
+export function HosClocks({ hos }: HosClocksProps) {
+  const clocks = [
+    { key: 'driving', label: `Drive Time (${hos.driving.limit}h)`, icon: Gauge, clock: hos.driving },
+    {
+      key: 'window',
+      label: `${hos.rules.windowBasis === 'elapsed' ? 'Shift' : 'On-Duty Window'} (${hos.window.limit}h)`,
+      icon: Timer,
+      clock: hos.window,
+    },
+    ...(hos.onDuty ? [{ key: 'onDuty', label: `On Duty (${hos.onDuty.limit}h)`, icon: Timer, clock: hos.onDuty }] : []),
+    ...(hos.break ? [{ key: 'break', label: 'Until 30-min Break', icon: Coffee, clock: hos.break }] : []),
+    { key: 'cycle', label: `Cycle (${hos.cycle.limit}h)`, icon: CalendarClock, clock: hos.cycle },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hours of Service</CardTitle>
+        <CardDescription>{hos.rules.name} — time remaining before each limit is reached</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-3">
+          {clocks.map(({ key, label, icon: Icon, clock }) => (
+            <div key={key} className={`p-3 rounded-lg border-2 transition-colors ${getClockColor(clock)}`}>
+              <div className="flex items-center gap-2 text-xs mb-1">
+                <Icon className="size-4" />
+                <span>{label}</span>
+              </div>
+              <p className="text-2xl font-mono tabular-nums">{formatRemaining(clock.remaining)}</p>
+              <p className="text-xs opacity-75 mt-1">
+                {clock.used.toFixed(2)} / {clock.limit} hrs used
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
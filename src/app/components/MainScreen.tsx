@@ -1,25 +1,53 @@
-import React from 'react';
-import { Clock, User, History, LogOut, Plus, FileText, Activity, Truck } from 'lucide-react';
+import React, { useState } from 'react';
+import { Clock, User, History, LogOut, Plus, FileText, Activity, Truck, FilePen, PenLine } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
 import { useAuth } from '../contexts/AuthContext';
 import { useTrips } from '../contexts/TripContext';
 import { getLocalUser } from '../utils/api';
+import { HOS_RULE_SETS, HosRuleSetId } from '../utils/hosRules';
+import { formatFeet } from '../utils/truck';
+import { TruckProfileDialog } from './TruckProfileDialog';
+import { UnassignedDrivingCard } from './UnassignedDrivingCard';
+import { ProposedEditDialog } from './ProposedEditDialog';
+import type { ProposedEdit } from '../utils/logEdits';
+import { CertifyDialog } from './CertifyDialog';
+import { certificationStatus } from '../utils/certification';
+import { toDateKey } from '../utils/hos';
 
 interface MainScreenProps {
   onNavigate: (screen: 'main' | 'new-trip' | 'recap' | 'activity') => void;
 }
 
 export function MainScreen({ onNavigate }: MainScreenProps) {
-  const { user, logout } = useAuth();
-  const { trips } = useTrips();
+  const { user, logout, updateRuleSet, updateTruck } = useAuth();
+  const { trips, getHosStatus, proposedEdits, eldLogs, certifications } = useTrips();
+  const [showTruckDialog, setShowTruckDialog] = useState(false);
+  const [reviewing, setReviewing] = useState<ProposedEdit | null>(null);
+  const [certifyDate, setCertifyDate] = useState<string | null>(null);
 
   if (!user) return null;
 
-  const cyclePercentage = (user.cycleHoursUsed / user.cycleHoursLimit) * 100;
-  const hoursRemaining = user.cycleHoursLimit - user.cycleHoursUsed;
+  const { cycle, lastRestart, rules } = getHosStatus();
+  const cyclePercentage = (cycle.used / cycle.limit) * 100;
+  const hoursRemaining = cycle.remaining;
+  const pendingEdits = proposedEdits.filter((p) => p.status === 'pending');
+  // Past days without a certification that still covers them, oldest first
+  const today = toDateKey(new Date());
+  const uncertified = eldLogs
+    .filter((log) => log.date < today)
+    .map((log) => ({ date: log.date, ...certificationStatus(log, certifications) }))
+    .filter((day) => !day.current)
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -58,6 +86,22 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Carrier-proposed edits awaiting the driver */}
+        {pendingEdits.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6 p-4 bg-amber-50 border border-amber-300 rounded-lg">
+            <div className="flex items-center gap-3">
+              <FilePen className="size-5 text-amber-700" />
+              <div>
+                <p className="text-amber-900">
+                  Your carrier proposed {pendingEdits.length} edit{pendingEdits.length > 1 ? 's' : ''} to your logs
+                </p>
+                <p className="text-sm text-amber-800">Review each edit and accept or reject it.</p>
+              </div>
+            </div>
+            <Button onClick={() => setReviewing(pendingEdits[0])}>Review</Button>
+          </div>
+        )}
+
         {/* Quick Actions */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
           <Button
@@ -89,18 +133,57 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Unidentified driving to review */}
+          <UnassignedDrivingCard />
+
+          {/* Past days still to be certified */}
+          {uncertified.length > 0 && (
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PenLine className="size-5" />
+                  Logs to Certify
+                  <Badge className="bg-amber-500 text-white">{uncertified.length}</Badge>
+                </CardTitle>
+                <CardDescription>Certify each day's record of duty status with your signature</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {uncertified.map((day) => (
+                  <div key={day.date} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <span>
+                        {new Date(`${day.date}T00:00:00`).toLocaleDateString('en-US', {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                        })}
+                      </span>
+                      {day.needsRecertification && <Badge variant="destructive">Edited since certified</Badge>}
+                    </div>
+                    <Button size="sm" onClick={() => setCertifyDate(day.date)}>
+                      {day.needsRecertification ? 'Recertify' : 'Certify'}
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Cycle Hours Summary */}
           <Card className="lg:col-span-2">
             <CardHeader>
               <CardTitle>Cycle Hours Summary</CardTitle>
-              <CardDescription>70-hour/8-day cycle</CardDescription>
+              <CardDescription>
+                {rules.cycleHours}-hour/{rules.cycleDays}-day cycle · {rules.name}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div>
                 <div className="flex justify-between mb-2">
                   <span className="text-sm">Hours Used</span>
                   <span className="text-sm">
-                    {user.cycleHoursUsed} / {user.cycleHoursLimit} hours
+                    {cycle.used.toFixed(1)} / {cycle.limit} hours
                   </span>
                 </div>
                 <Progress value={cyclePercentage} className="h-3" />
@@ -119,6 +202,14 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
                 </div>
               </div>
 
+              <p className="text-xs text-gray-500">
+                {lastRestart
+                  ? `Cycle reset by ${rules.restartHours}+ hours off duty (through ${new Date(lastRestart).toLocaleString()})`
+                  : rules.restartHours !== null
+                    ? `Derived from on-duty time in your logs; no ${rules.restartHours}-hour restart in the current cycle`
+                    : 'Derived from on-duty time in your logs; this rule set has no cycle restart'}
+              </p>
+
               {cyclePercentage >= 80 && (
                 <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
                   <p className="text-sm text-amber-800">
@@ -154,6 +245,36 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
                 <p className="text-sm text-gray-500">Driver ID</p>
                 <p className="mt-1">{user.id}</p>
               </div>
+              <div>
+                <p className="text-sm text-gray-500">Hours of Service Rules</p>
+                <Select value={user.ruleSetId} onValueChange={(v) => updateRuleSet(v as HosRuleSetId)}>
+                  <SelectTrigger className="w-full mt-1">
+                    <SelectValue placeholder="Select rule set" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOS_RULE_SETS.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-1 text-xs text-gray-500">{rules.citation}</p>
+              </div>
+              <div>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-500">Assigned Truck</p>
+                  <Button variant="ghost" size="sm" onClick={() => setShowTruckDialog(true)}>
+                    Edit
+                  </Button>
+                </div>
+                <p className="mt-1">{user.truck.unitNumber ? `Unit ${user.truck.unitNumber}` : 'No unit number'}</p>
+                <p className="mt-1 text-xs text-gray-500">
+                  {formatFeet(user.truck.height)} H · {formatFeet(user.truck.width)} W · {formatFeet(user.truck.length)} L ·{' '}
+                  {user.truck.grossWeight.toLocaleString()} lb · {user.truck.axles} axles
+                  {user.truck.hazmatClass && ` · Hazmat class ${user.truck.hazmatClass}`}
+                </p>
+              </div>
             </CardContent>
           </Card>
 
@@ -192,6 +313,7 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
                         <span>Distance: {trip.distance} mi</span>
                         <span>Duration: {trip.duration} hrs</span>
                         <span>Cycle Hours: {trip.cycleHoursUsed} hrs</span>
+                        {trip.stops && trip.stops.length > 2 && <span>Stops: {trip.stops.length}</span>}
                       </div>
                     </div>
                   </div>
@@ -208,6 +330,20 @@ export function MainScreen({ onNavigate }: MainScreenProps) {
           </Card>
         </div>
       </main>
+
+      <TruckProfileDialog
+        open={showTruckDialog}
+        onOpenChange={setShowTruckDialog}
+        truck={user.truck}
+        onSave={updateTruck}
+      />
+
+      <ProposedEditDialog proposal={reviewing} onOpenChange={(open) => !open && setReviewing(null)} />
+      <CertifyDialog
+        date={certifyDate}
+        recertify={uncertified.some((day) => day.date === certifyDate && day.needsRecertification)}
+        onOpenChange={(open) => !open && setCertifyDate(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
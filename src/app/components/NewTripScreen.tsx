@@ -1,12 +1,21 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { ArrowLeft, MapPin, Navigation, Package, Clock, Map } from 'lucide-react';
+import { ArrowLeft, MapPin, Navigation, Package, Clock, Map, Truck, Fuel, Coffee, BedDouble, RotateCcw } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { ELDLogBook } from './ELDLogBook';
 // select component not used anymore; locations use Geoapify autocomplete
 import { useAuth } from '../contexts/AuthContext';
-import { useTrips } from '../contexts/TripContext';
+import { useTrips, TripRoute, TripStop } from '../contexts/TripContext';
+import { StopList, createStop } from './StopList';
+import { findBorderCrossings, jurisdictionAt, pointAlongRoute } from '../utils/geo';
+import { getRuleSet, ruleSetForJurisdiction } from '../utils/hosRules';
+import { planTrip, projectLogs, PlanLeg, PlanSegment, PlanStopType, TripPlan } from '../utils/tripPlanner';
+import { getGeoProvider, Suggestion } from '../utils/geocode';
+import { getMapStyle, fallBackToOfflineStyle, OFFLINE_MAP_STYLE } from '../utils/mapStyle';
+import { truckRouting, unsupportedTruckRouting, RouteRestriction } from '../utils/truck';
 import { toast } from 'sonner';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
@@ -16,88 +25,50 @@ interface NewTripScreenProps {
   onNavigate: (screen: 'main' | 'new-trip' | 'recap' | 'activity') => void;
 }
 
-// Predefined locations for autocomplete
-const LOCATIONS = [
-  'Los Angeles, CA',
-  'San Francisco, CA',
-  'San Diego, CA',
-  'Sacramento, CA',
-  'Oakland, CA',
-  'Long Beach, CA',
-  'Fresno, CA',
-  'Phoenix, AZ',
-  'Las Vegas, NV',
-  'Seattle, WA',
-  'Portland, OR',
-  'Denver, CO',
-  'Salt Lake City, UT',
-  'Albuquerque, NM',
-  'Dallas, TX',
-  'Houston, TX',
-  'Chicago, IL',
-  'New York, NY',
-  'Miami, FL',
-  'Atlanta, GA',
-];
-
-interface Suggestion {
+// coords are [lon, lat] along the whole route; legs run between consecutive stops
+interface RouteOption {
+  id: string;
   label: string;
-  lat: number;
-  lon: number;
+  distance: number;
+  duration: number;
+  tollMiles: number;
+  coords: [number, number][];
+  legs: PlanLeg[];
+  restrictions: RouteRestriction[]; // truck restrictions the route was requested with
 }
 
-async function fetchGeoSuggestions(query: string, apiKey: string): Promise<Suggestion[]> {
-  if (!query || query.trim().length === 0) {
-    return [];
-  }
-
-  const q = encodeURIComponent(query);
-  if (!apiKey) {
-    // fallback to local list (no coords)
-    const filtered = LOCATIONS.filter(l => l.toLowerCase().includes(query.toLowerCase())).slice(0, 6);
-    return filtered.map((label) => ({ label, lat: 0, lon: 0 }));
-  }
-
-  try {
-    const url = `https://api.geoapify.com/v1/geocode/autocomplete?text=${q}&limit=6&apiKey=${apiKey}`;
-    const res = await fetch(url, { method: 'GET' });
-    if (!res.ok) {
-      return [];
-    }
-    const json = await res.json();
-    const items = (json.features || []).map((f: any) => ({
-      label: f.properties?.formatted,
-      lat: f.properties?.lat,
-      lon: f.properties?.lon,
-    })).filter((i: any) => i.label);
-    // uniq by label preserve order
-    const uniq: Suggestion[] = [];
-    for (const it of items) if (!uniq.find(u => u.label === it.label)) uniq.push(it);
-    return uniq.slice(0, 6);
-  } catch (e) {
-    return [];
-  }
-}
+const MAX_ALTERNATIVES = 3;
+const ROUTE_COLORS = ['#3b82f6', '#16a34a', '#9333ea'];
+const TOLL_RATE_PER_MILE = 0.35; // rough 5-axle tractor-trailer toll cost, USD
+
+// Marker look for each planned stop type
+const STOP_STYLES: Record<PlanStopType, { icon: string; className: string }> = {
+  pickup: { icon: '📦', className: 'bg-green-500' },
+  dropoff: { icon: '🏁', className: 'bg-red-500' },
+  fuel: { icon: '⛽', className: 'bg-amber-400' },
+  break: { icon: '☕', className: 'bg-sky-400' },
+  rest: { icon: '🛏️', className: 'bg-purple-500' },
+  restart: { icon: '🔄', className: 'bg-gray-600' },
+};
 
 export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
-  const { user, updateCycleHours } = useAuth();
-  const { addTrip } = useTrips();
+  const { user } = useAuth();
+  const { addTrip, getHosStatus, getDutyHistory, ruleSwitches, hosExceptions } = useTrips();
 
   const [currentLocation, setCurrentLocation] = useState('');
-  const [pickupLocation, setPickupLocation] = useState('');
-  const [dropoffLocation, setDropoffLocation] = useState('');
+  const [stops, setStops] = useState<TripStop[]>(() => [createStop('pickup'), createStop('dropoff')]);
   const [currentSuggestions, setCurrentSuggestions] = useState<Suggestion[]>([]);
-  const [pickupSuggestions, setPickupSuggestions] = useState<Suggestion[]>([]);
-  const [dropoffSuggestions, setDropoffSuggestions] = useState<Suggestion[]>([]);
   const [showCurrentSuggestions, setShowCurrentSuggestions] = useState(false);
-  const [showPickupSuggestions, setShowPickupSuggestions] = useState(false);
-  const [showDropoffSuggestions, setShowDropoffSuggestions] = useState(false);
-  const [routeInfo, setRouteInfo] = useState<{ distance: number; duration: number; geometry?: [number, number][] , pickupLocation: string, dropoffLocation: string , coords: any} | null>(null);
+  const [routes, setRoutes] = useState<RouteOption[]>([]);
+  const [selectedRoute, setSelectedRoute] = useState(0);
+  const routeInfo: RouteOption | null = routes[selectedRoute] ?? null;
   const suggRef = useRef<HTMLDivElement | null>(null);
   const formRef = useRef<HTMLFormElement | null>(null);
   const mapContainerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<MaplibreMap | null>(null);
-  const geoApiKey = import.meta.env.VITE_GEOAPIFY_API_KEY || '';
+  const stopMarkersRef = useRef<Record<number, maplibregl.Marker>>({});
+  const geoProvider = getGeoProvider();
+  const [mapStyle, setMapStyle] = useState(getMapStyle);
   const [cycleHoursUsed, setCycleHoursUsed] = useState('');
 
   useEffect(() => {
@@ -106,8 +77,6 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
       const inside = (formRef.current && formRef.current.contains(target));
       if (!inside) {
         setShowCurrentSuggestions(false);
-        setShowPickupSuggestions(false);
-        setShowDropoffSuggestions(false);
       }
     };
 
@@ -115,9 +84,25 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
     return () => document.removeEventListener('click', handleDocClick);
   }, []);
 
+  // Every alternative as one feature; the selected one is drawn on top
+  const routeData = useMemo(
+    () =>
+      ({
+        type: 'FeatureCollection',
+        features: routes.map((route, idx) => ({
+          type: 'Feature',
+          properties: { idx, color: ROUTE_COLORS[idx % ROUTE_COLORS.length], selected: idx === selectedRoute },
+          geometry: { type: 'LineString', coordinates: route.coords },
+        })),
+      }) as GeoJSON.FeatureCollection<GeoJSON.LineString>,
+    [routes, selectedRoute],
+  );
+  const routeDataRef = useRef(routeData);
+  routeDataRef.current = routeData;
+
   // Create / update MapLibre map when route geometry changes
   useEffect(() => {
-    if (!routeInfo || !routeInfo.geometry || routeInfo.geometry.length === 0) {
+    if (!routeInfo || routeInfo.coords.length === 0) {
       // destroy map if exists
       if (mapRef.current) {
         mapRef.current.remove();
@@ -126,113 +111,295 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
       return;
     }
 
-    const coordsLatLon = routeInfo.geometry as [number, number][]; // currently [lat, lon]
-    const coordsLonLat = coordsLatLon.map(([lat, lon]) => [lon, lat] as [number, number]);
-
-    const center = coordsLonLat[Math.floor(coordsLonLat.length / 2)][0] as unknown as [number, number];
+    const coordsLonLat = routeInfo.coords;
+    const center = coordsLonLat[Math.floor(coordsLonLat.length / 2)];
     // create map if not existing
     if (!mapRef.current && mapContainerRef.current) {
       mapRef.current = new maplibregl.Map({
         container: mapContainerRef.current,        
-        style: 'https://api.maptiler.com/maps/streets-v4/style.json?key='+(import.meta.env.VITE_MAPTILER_API_KEY || ''),
+        style: mapStyle.style,
         center: center,        
         zoom: 9,
       });
       mapRef.current.addControl(new maplibregl.NavigationControl());
-      mapRef.current.on('load', () => {
+      fallBackToOfflineStyle(mapRef.current, () => setMapStyle(OFFLINE_MAP_STYLE));
+      // Clicking an alternative selects it
+      mapRef.current.on('click', 'route-line', (e) => {
+        const idx = e.features?.[0]?.properties?.idx;
+        if (typeof idx === 'number') setSelectedRoute(idx);
+      });
+      mapRef.current.on('mouseenter', 'route-line', () => {
+        if (mapRef.current) mapRef.current.getCanvas().style.cursor = 'pointer';
+      });
+      mapRef.current.on('mouseleave', 'route-line', () => {
+        if (mapRef.current) mapRef.current.getCanvas().style.cursor = '';
+      });
+      // A style swap drops custom layers, so add the route whenever a style finishes loading
+      mapRef.current.on('style.load', () => {
         if (!mapRef.current) return;
         // add route source/layer
         if (!mapRef.current.getSource('route')) {
-          mapRef.current.addSource('route', {
-            type: 'geojson',
-            data: {
-              type: 'Feature',
-              properties: {},
-              geometry: { type: 'LineString', coordinates: routeInfo.coords[0] },
-            },
-          } as any);
+          mapRef.current.addSource('route', { type: 'geojson', data: routeDataRef.current });
           mapRef.current.addLayer({
             id: 'route-line',
             type: 'line',
             source: 'route',
-            paint: { 'line-color': '#3b82f6', 'line-width': 5 },
+            layout: { 'line-sort-key': ['case', ['get', 'selected'], 1, 0] },
+            paint: {
+              'line-color': ['get', 'color'],
+              'line-width': ['case', ['get', 'selected'], 6, 4],
+              'line-opacity': ['case', ['get', 'selected'], 1, 0.5],
+            },
           });
         }
-        // add markers
-        const start = {lng: routeInfo.pickupLocation.lon, lat: routeInfo.pickupLocation.lat}  as unknown as [number, number];
-        const end =  {lng: routeInfo.dropoffLocation.lon, lat: routeInfo.dropoffLocation.lat}  as unknown as [number, number];
-        new maplibregl.Marker({ color: 'green' }).setLngLat(start).addTo(mapRef.current!);
-        new maplibregl.Marker({ color: 'red' }).setLngLat(end).addTo(mapRef.current!);
-        setCycleHoursUsed((routeInfo.duration).toString());
+        // stop markers are added by the trip plan effect below
       });
     } else if (mapRef.current) {
       // update source data and fly to center
       const src = mapRef.current.getSource('route') as any | undefined;
-      const data = {
-        type: 'Feature',
-        properties: {},
-        geometry: { type: 'LineString', coordinates: coordsLonLat },
-      } as GeoJSON.Feature<GeoJSON.LineString>;
       if (src && (src as any).setData) {
-        try { (src as any).setData(data); } catch {}
+        try { (src as any).setData(routeData); } catch {}
       }
       mapRef.current.flyTo({ center: coordsLonLat[Math.floor(coordsLonLat.length / 2)] as [number, number], zoom: 10 });
-      // remove existing markers then add new ones
-      const existing = Array.from(mapRef.current.getContainer().querySelectorAll('.maplibregl-marker'));
-      existing.forEach((n) => n.remove());
-      new maplibregl.Marker({ color: 'green' }).setLngLat(coordsLonLat[0] as [number, number]).addTo(mapRef.current);
-      new maplibregl.Marker({ color: 'red' }).setLngLat(coordsLonLat[coordsLonLat.length - 1] as [number, number]).addTo(mapRef.current);
 
     }
 
     return () => {
       // do not remove map here to allow persistence; it will be removed when routeInfo cleared
     };
-  }, [routeInfo]);
+  }, [routeData]);
+
+  // Route through every stop, in order, once they all have coordinates
+  const waypoints = stops.every((s) => s.lat !== 0 || s.lon !== 0)
+    ? stops.map((s) => `${s.lat},${s.lon}`).join('|')
+    : '';
+
+  // Vehicle class and restrictions for the assigned truck
+  const truckRoute = useMemo(() => (user ? truckRouting(user.truck, geoProvider.truckDimensions) : null), [user]);
 
-  // When pickup/dropoff selected with coords, call routing API
   useEffect(() => {
-    const pickup = pickupSuggestions.find(s => s.label === pickupLocation);
-    const dropoff = dropoffSuggestions.find(s => s.label === dropoffLocation);
-    if (!pickup || !dropoff || !geoApiKey) {
+    if (!waypoints || !truckRoute) {
       // clear route if missing
-      setRouteInfo(null);
+      setRoutes([]);
       return;
     }
 
+    let cancelled = false;
+    const restrictions = geoProvider.truckRouting
+      ? truckRoute.restrictions
+      : unsupportedTruckRouting(truckRoute, geoProvider.name);
     (async () => {
-      try {
-        const waypoints = `${pickup.lat},${pickup.lon}|${dropoff.lat},${dropoff.lon}`;
-        const url = `https://api.geoapify.com/v1/routing?waypoints=${encodeURIComponent(waypoints)}&mode=truck&details=route_details&apiKey=${geoApiKey}`;
-        const res = await fetch(url);
-        if (!res.ok) return;
-        const json = await res.json();
-        // Expect geometry in features[0].geometry.coordinates as [[lon,lat],...]
-        const feat = json?.features && json.features[0];
-        const props = feat?.properties || {};
-        const dist = props?.distance || props?.distance_in_meters || 0;
-        const duration = props?.time || props?.travel_time || props?.duration || 0;
-        const coords = feat?.geometry?.coordinates || [];
-        // coords are [lon, lat] - convert to [lat, lon] for display if needed
-        const geom: [number, number][] = coords.map((c: any) => [c[1], c[0]]);
-        setRouteInfo({ distance: Math.round(dist), duration: Math.round(duration / 3600 * 10) / 10, 
-                    geometry: geom, pickupLocation: pickup, dropoffLocation: dropoff, coords: coords });
-      } catch (e) {
-        // ignore
-      }
+      const results = await geoProvider.route({
+        waypoints: stops.map(({ lat, lon }) => ({ lat, lon })),
+        truck: truckRoute,
+        alternatives: MAX_ALTERNATIVES,
+      });
+      if (cancelled) return;
+
+      // Alternatives often agree; keep only routes that differ in length or time
+      const options: RouteOption[] = [];
+      results.forEach((result) => {
+        if (result.coords.length === 0 || options.length >= MAX_ALTERNATIVES) return;
+        const route: RouteOption = {
+          ...result,
+          distance: Math.round(result.distance),
+          duration: Math.round(result.duration * 10) / 10,
+          tollMiles: Math.round(result.tollMiles),
+          restrictions,
+        };
+        const duplicate = options.some(
+          (o) => Math.abs(o.distance - route.distance) <= 1 && Math.abs(o.duration - route.duration) <= 0.1,
+        );
+        if (!duplicate) options.push(route);
+      });
+      setRoutes(options);
+      setSelectedRoute(0);
     })();
-  }, [pickupLocation, dropoffLocation, pickupSuggestions, dropoffSuggestions, geoApiKey]);
+    return () => {
+      cancelled = true;
+    };
+  }, [waypoints, geoProvider, truckRoute]);
+
+  // routes are managed by routing API calls once every stop has coordinates
+
+  // Border crossings along the route and the rule set that governs each leg
+  const borderCrossings = useMemo(() => {
+    const line: [number, number][] = routeInfo?.coords || [];
+    return findBorderCrossings(line);
+  }, [routeInfo]);
 
-  // Calculate estimated distance and duration (simplified)
-  // routeInfo state is managed by routing API calls when both pickup and dropoff have coordinates
+  const routeSegments = useMemo(() => {
+    const line: [number, number][] = routeInfo?.coords || [];
+    if (!routeInfo || line.length === 0 || borderCrossings.length === 0) return [];
+    const homeRules = getRuleSet(user?.ruleSetId);
+    const bounds = [
+      { fraction: 0, jurisdiction: jurisdictionAt(line[0][1], line[0][0]) },
+      ...borderCrossings.map((c) => ({ fraction: c.fraction, jurisdiction: c.jurisdiction })),
+    ];
+    return bounds.map((b, i) => {
+      const end = i + 1 < bounds.length ? bounds[i + 1].fraction : 1;
+      return {
+        jurisdiction: b.jurisdiction,
+        rules: ruleSetForJurisdiction(homeRules, b.jurisdiction),
+        startHours: b.fraction * routeInfo.duration,
+        hours: (end - b.fraction) * routeInfo.duration,
+      };
+    });
+  }, [routeInfo, borderCrossings, user?.ruleSetId]);
+
+  // Legal itinerary for each alternative, starting from the driver's current HOS state and
+  // switching rule sets wherever that alternative crosses the border
+  const routePlans = useMemo(() => {
+    const hos = getHosStatus();
+    const homeRules = getRuleSet(user?.ruleSetId);
+    return routes.map((route): TripPlan | null => {
+      if (route.distance <= 0 || route.legs.length !== stops.length - 1) return null;
+      return planTrip({ stops, legs: route.legs, hos, homeRules, crossings: findBorderCrossings(route.coords) });
+    });
+  }, [routes, stops, user?.ruleSetId]);
+  const tripPlan = routePlans[selectedRoute] ?? null;
+
+  // Whether a plan reaches every stop before its appointment window closes
+  const meetsAppointments = (plan: TripPlan) =>
+    plan.segments.every((segment) => {
+      const end = segment.stop !== undefined ? stops[segment.stop]?.appointmentEnd : undefined;
+      return !end || segment.start <= new Date(end).getTime();
+    });
+
+  // Projected log sheets for each day of the plan, evaluated after the driver's recorded history
+  // and under the rules of whichever country each part of the plan is driven in
+  const projected = useMemo(() => {
+    if (!tripPlan) return null;
+    const recorded = getDutyHistory();
+    const logs = projectLogs(tripPlan, { driverId: user?.id || '', history: recorded });
+    const history = [
+      ...recorded
+        .filter((p) => p.start < tripPlan.departure)
+        .map((p) => ({ ...p, end: Math.min(p.end, tripPlan.departure) })),
+      ...tripPlan.segments.map(({ status, start, end }) => ({ status, start, end })),
+    ];
+    const switches = [...ruleSwitches.filter((s) => s.at < tripPlan.departure), ...tripPlan.switches];
+    return { logs, history, switches };
+  }, [tripPlan, ruleSwitches]);
+
+  // The cycle hours a trip uses are the on-duty hours of its plan, not just the drive time
+  useEffect(() => {
+    if (tripPlan) setCycleHoursUsed(tripPlan.onDutyHours.toFixed(1));
+  }, [tripPlan]);
+
+  const formatPlanTime = (ms: number) =>
+    new Date(ms).toLocaleString('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+
+  const formatPlanDuration = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  };
+
+  const getSegmentIcon = (type: PlanSegment['type']) => {
+    switch (type) {
+      case 'drive':
+        return Truck;
+      case 'pickup':
+        return Package;
+      case 'dropoff':
+        return MapPin;
+      case 'fuel':
+        return Fuel;
+      case 'break':
+        return Coffee;
+      case 'rest':
+        return BedDouble;
+      case 'restart':
+        return RotateCcw;
+    }
+  };
+
+  const getSegmentLabel = (segment: PlanSegment) => {
+    switch (segment.type) {
+      case 'drive':
+        return `Drive ${Math.round(segment.miles)} mi`;
+      case 'pickup':
+        return `Pickup — ${segment.location}`;
+      case 'dropoff':
+        return `Drop-off — ${segment.location}`;
+      case 'fuel':
+        return 'Fuel stop';
+      case 'break':
+        return '30-minute break';
+      case 'rest':
+        return `${(segment.end - segment.start) / 3600000}-hour rest`;
+      case 'restart':
+        return 'Cycle restart';
+    }
+  };
+
+  // One marker per planned stop, placed by route mile, with a popup describing the stop
+  useEffect(() => {
+    Object.values(stopMarkersRef.current).forEach((marker) => marker.remove());
+    stopMarkersRef.current = {};
+    const line: [number, number][] = routeInfo?.coords || [];
+    if (!mapRef.current || !tripPlan || line.length === 0) return;
+
+    tripPlan.segments.forEach((segment, idx) => {
+      if (segment.type === 'drive') return;
+      const el = document.createElement('div');
+      el.className = `flex items-center justify-center size-8 rounded-full border-2 border-white shadow text-base ${STOP_STYLES[segment.type].className}`;
+      el.textContent = STOP_STYLES[segment.type].icon;
+
+      const content = document.createElement('div');
+      content.className = 'text-xs space-y-0.5';
+      [
+        getSegmentLabel(segment),
+        `ETA: ${formatPlanTime(segment.start)}`,
+        `Duration: ${formatPlanDuration(segment.end - segment.start)}`,
+        segment.reason || '',
+      ].filter(Boolean).forEach((text, lineIdx) => {
+        const p = document.createElement('p');
+        if (lineIdx === 0) p.className = 'font-semibold';
+        p.textContent = text;
+        content.appendChild(p);
+      });
+
+      const position = pointAlongRoute(line, tripPlan.totalMiles > 0 ? segment.mile / tripPlan.totalMiles : 0);
+      stopMarkersRef.current[idx] = new maplibregl.Marker({ element: el })
+        .setLngLat(position)
+        .setPopup(new maplibregl.Popup({ offset: 18 }).setDOMContent(content))
+        .addTo(mapRef.current!);
+    });
+  }, [tripPlan]);
+
+  // Appointment window of the trip stop a pickup or drop-off serves, and whether the plan misses it
+  const getAppointment = (segment: PlanSegment) => {
+    const stop = segment.stop !== undefined ? stops[segment.stop] : undefined;
+    if (!stop || (!stop.appointmentStart && !stop.appointmentEnd)) return null;
+    const end = stop.appointmentEnd ? new Date(stop.appointmentEnd).getTime() : null;
+    const format = (value?: string) => (value ? formatPlanTime(new Date(value).getTime()) : '…');
+    return {
+      label: `Appointment ${format(stop.appointmentStart)} – ${format(stop.appointmentEnd)}`,
+      late: end !== null && segment.start > end,
+    };
+  };
+
+  const flyToStop = (idx: number) => {
+    const marker = stopMarkersRef.current[idx];
+    if (!marker || !mapRef.current) return;
+    mapRef.current.flyTo({ center: marker.getLngLat(), zoom: 11 });
+    if (!marker.getPopup()?.isOpen()) marker.togglePopup();
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!currentLocation || !pickupLocation || !dropoffLocation || !cycleHoursUsed) {
+    if (!currentLocation || stops.some((s) => !s.location) || !cycleHoursUsed) {
       toast.error('Please fill in all fields');
       return;
     }
+    const pickups = stops.filter((s) => s.type === 'pickup');
+    const dropoffs = stops.filter((s) => s.type === 'dropoff');
+    if (pickups.length === 0 || dropoffs.length === 0) {
+      toast.error('A trip needs at least one pickup and one drop-off');
+      return;
+    }
 
     const hours = parseFloat(cycleHoursUsed);
     if (isNaN(hours) || hours <= 0) {
@@ -244,22 +411,30 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
     addTrip({
       date: new Date().toISOString().split('T')[0],
       currentLocation,
-      pickupLocation,
-      dropoffLocation,
+      pickupLocation: pickups[0].location,
+      dropoffLocation: dropoffs[dropoffs.length - 1].location,
       cycleHoursUsed: hours,
       distance: routeInfo?.distance || 0,
       duration: routeInfo?.duration || 0,
+      route: routeInfo
+        ? {
+            label: routeInfo.label,
+            distance: routeInfo.distance,
+            duration: routeInfo.duration,
+            tollMiles: routeInfo.tollMiles,
+            estimatedTolls: Math.round(routeInfo.tollMiles * TOLL_RATE_PER_MILE),
+            coords: routeInfo.coords,
+          }
+        : undefined,
+      borderCrossings: borderCrossings.length > 0 ? borderCrossings : undefined,
+      stops,
     });
 
-    // Update cycle hours
-    updateCycleHours(hours);
-
     toast.success('Trip created successfully!');
     
     // Reset form
     setCurrentLocation('');
-    setPickupLocation('');
-    setDropoffLocation('');
+    setStops([createStop('pickup'), createStop('dropoff')]);
     setCycleHoursUsed('');
 
     // Navigate back to main screen
@@ -306,7 +481,7 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
                     onChange={(e) => {
                       const v = e.target.value;
                       setCurrentLocation(v);
-                      fetchGeoSuggestions(v, geoApiKey).then((res) => { setCurrentSuggestions(res); setShowCurrentSuggestions(true); });
+                      geoProvider.autocomplete(v).then((res) => { setCurrentSuggestions(res); setShowCurrentSuggestions(true); });
                     }}
                     placeholder="Start typing an address"
                     onFocus={() => { if (currentSuggestions.length) setShowCurrentSuggestions(true); }}
@@ -326,66 +501,13 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
                   )}
                 </div>
 
-                <div className="space-y-2 relative">
-                  <Label htmlFor="pickup-location" className="flex items-center gap-2">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
                     <Package className="size-4" />
-                    Pickup Location
+                    Stops
                   </Label>
-                  <Input
-                    id="pickup-location"
-                    value={pickupLocation}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      setPickupLocation(v);
-                      fetchGeoSuggestions(v, geoApiKey).then((res) => { setPickupSuggestions(res); setShowPickupSuggestions(true); });
-                    }}
-                    placeholder="Start typing pickup address"
-                    onFocus={() => { if (pickupSuggestions.length) setShowPickupSuggestions(true); }}
-                  />
-                  {showPickupSuggestions && pickupSuggestions.length > 0 && (
-                    <div className="absolute z-40 mt-1 w-full bg-white rounded-md shadow-lg max-h-60 overflow-auto">
-                      {pickupSuggestions.map((s) => (
-                        <div
-                          key={s.label}
-                          className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
-                          onClick={() => { setPickupLocation(s.label); setShowPickupSuggestions(false); }}
-                        >
-                          {s.label}
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
-
-                <div className="space-y-2 relative">
-                  <Label htmlFor="dropoff-location" className="flex items-center gap-2">
-                    <MapPin className="size-4" />
-                    Dropoff Location
-                  </Label>
-                  <Input
-                    id="dropoff-location"
-                    value={dropoffLocation}
-                    onChange={(e) => {
-                      const v = e.target.value;
-                      setDropoffLocation(v);
-                      fetchGeoSuggestions(v, geoApiKey).then((res) => { setDropoffSuggestions(res); setShowDropoffSuggestions(true); });
-                    }}
-                    placeholder="Start typing dropoff address"
-                    onFocus={() => { if (dropoffSuggestions.length) setShowDropoffSuggestions(true); }}
-                  />
-                  {showDropoffSuggestions && dropoffSuggestions.length > 0 && (
-                    <div className="absolute z-40 mt-1 w-full bg-white rounded-md shadow-lg max-h-60 overflow-auto">
-                      {dropoffSuggestions.map((s) => (
-                        <div
-                          key={s.label}
-                          className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
-                          onClick={() => { setDropoffLocation(s.label); setShowDropoffSuggestions(false); }}
-                        >
-                          {s.label}
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                  <StopList stops={stops} onChange={setStops} provider={geoProvider} />
+                  <p className="text-xs text-gray-500">Drag stops to change the order they are visited in.</p>
                 </div>
 
                 <div className="space-y-2">
@@ -403,7 +525,7 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
                     onChange={(e) => setCycleHoursUsed(e.target.value)}
                   />
                   <p className="text-xs text-gray-500">
-                    Hours remaining: {user ? (user.cycleHoursLimit - user.cycleHoursUsed).toFixed(1) : 0} hrs
+                    Hours remaining: {user ? getHosStatus().cycle.remaining.toFixed(1) : 0} hrs
                   </p>
                 </div>
 
@@ -424,16 +546,21 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
                 </CardTitle>
                 <CardDescription>
                   {routeInfo
-                    ? 'Estimated fastest route'
-                    : 'Enter pickup and dropoff locations to see route'}
+                    ? `${routeInfo.label} route${routes.length > 1 ? ' · click another line to compare' : ''}`
+                    : 'Enter every stop location to see the route'}
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 {/* Simplified map visualization */}
                 <div className="bg-gray-100 rounded-lg p-6 h-80 flex items-center justify-center relative overflow-hidden">
-                  {routeInfo && routeInfo.geometry ? (
+                  {routeInfo ? (
                     <div className="w-full h-full relative">
                       <div ref={mapContainerRef} className="w-full h-full rounded" />
+                      {mapStyle.source === 'offline' && (
+                        <p className="absolute bottom-2 left-2 px-2 py-1 rounded bg-white/80 text-xs text-gray-500">
+                          Offline map — set VITE_MAPTILER_API_KEY or VITE_MAP_STYLE_URL for street maps
+                        </p>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center text-gray-400">
@@ -445,6 +572,128 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
               </CardContent>
             </Card>
 
+            {/* Route alternatives */}
+            {routes.length > 1 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Route Alternatives</CardTitle>
+                  <CardDescription>The selected route is planned and saved with the trip</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2 pr-2 font-normal">Route</th>
+                          <th className="py-2 pr-2 font-normal">Distance</th>
+                          <th className="py-2 pr-2 font-normal">Drive time</th>
+                          <th className="py-2 pr-2 font-normal">HOS</th>
+                          <th className="py-2 pr-2 font-normal">Rests</th>
+                          <th className="py-2 font-normal">Est. tolls</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {routes.map((route, idx) => {
+                          const plan = routePlans[idx];
+                          const onTime = plan ? meetsAppointments(plan) : true;
+                          return (
+                            <tr
+                              key={route.id}
+                              onClick={() => setSelectedRoute(idx)}
+                              className={`border-b last:border-0 cursor-pointer ${idx === selectedRoute ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                            >
+                              <td className="py-2 pr-2">
+                                <span className="flex items-center gap-2">
+                                  <span
+                                    className="inline-block w-3 h-3 rounded-full"
+                                    style={{ backgroundColor: ROUTE_COLORS[idx % ROUTE_COLORS.length] }}
+                                  />
+                                  {route.label}
+                                </span>
+                              </td>
+                              <td className="py-2 pr-2">{route.distance} mi</td>
+                              <td className="py-2 pr-2">{route.duration} hrs</td>
+                              <td className={`py-2 pr-2 ${onTime ? 'text-green-600' : 'text-red-600'}`}>
+                                {!plan
+                                  ? '—'
+                                  : !onTime
+                                    ? '⚠ Misses appointment'
+                                    : plan.rests === 0
+                                      ? '✓ Fits current hours'
+                                      : '✓ Legal with rests'}
+                              </td>
+                              <td className="py-2 pr-2">{plan ? plan.rests : '—'}</td>
+                              <td className="py-2">
+                                {route.tollMiles > 0
+                                  ? `~$${Math.round(route.tollMiles * TOLL_RATE_PER_MILE)} (${route.tollMiles} mi)`
+                                  : 'None'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* HOS-aware trip plan */}
+            {tripPlan && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Clock className="size-5" />
+                    Trip Plan
+                  </CardTitle>
+                  <CardDescription>
+                    Arrive {formatPlanTime(tripPlan.arrival)} · {tripPlan.breaks} break{tripPlan.breaks === 1 ? '' : 's'},{' '}
+                    {tripPlan.rests} rest{tripPlan.rests === 1 ? '' : 's'}, {tripPlan.fuelStops} fuel stop
+                    {tripPlan.fuelStops === 1 ? '' : 's'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l-2 border-gray-200 ml-3 space-y-4 max-h-96 overflow-y-auto">
+                    {tripPlan.segments.map((segment, idx) => {
+                      const Icon = getSegmentIcon(segment.type);
+                      return (
+                        <li
+                          key={idx}
+                          className={`relative pl-6 ${segment.type !== 'drive' ? 'cursor-pointer hover:bg-gray-50 rounded' : ''}`}
+                          onClick={() => segment.type !== 'drive' && flyToStop(idx)}
+                        >
+                          <span
+                            className={`absolute -left-3.5 top-0 flex items-center justify-center size-7 rounded-full ${
+                              segment.type === 'drive' ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'
+                            }`}
+                          >
+                            <Icon className="size-4" />
+                          </span>
+                          <div className="flex items-baseline justify-between gap-2">
+                            <p className="text-sm font-medium">{getSegmentLabel(segment)}</p>
+                            <p className="text-xs text-gray-500">
+                              {formatPlanTime(segment.start)} – {formatPlanTime(segment.end)}
+                            </p>
+                          </div>
+                          {segment.reason && <p className="text-xs text-gray-500">{segment.reason}</p>}
+                          {(() => {
+                            const appointment = getAppointment(segment);
+                            if (!appointment) return null;
+                            return (
+                              <p className={`text-xs ${appointment.late ? 'text-red-600' : 'text-gray-500'}`}>
+                                {appointment.label}
+                                {appointment.late && ' — plan arrives after the window closes'}
+                              </p>
+                            );
+                          })()}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Route Information */}
             {routeInfo && (
               <Card>
@@ -462,11 +711,90 @@ export function NewTripScreen({ onNavigate }: NewTripScreenProps) {
                       <p className="text-2xl mt-1">{routeInfo.duration} hrs</p>
                     </div>
                   </div>
+                  <div className="mt-4 space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Truck restrictions{user?.truck.unitNumber ? ` (unit ${user.truck.unitNumber})` : ''}
+                    </p>
+                    {routeInfo.restrictions.length === 0 && (
+                      <p className="text-sm text-gray-500">Within standard truck limits; no special routing needed</p>
+                    )}
+                    {routeInfo.restrictions.map((r) => (
+                      <div
+                        key={r.label}
+                        className={`p-3 rounded-lg text-sm ${r.honored ? 'bg-gray-50' : 'bg-amber-50'}`}
+                      >
+                        <p className="font-medium">
+                          {r.honored ? '✓' : '⚠'} {r.label}
+                        </p>
+                        <p className="text-gray-600">{r.detail}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {routeSegments.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <p className="text-sm text-gray-600">Hours of Service by jurisdiction</p>
+                      {routeSegments.map((seg, idx) => (
+                        <div
+                          key={idx}
+                          className={`p-3 rounded-lg text-sm ${seg.jurisdiction === 'CA' ? 'bg-red-50' : 'bg-gray-50'}`}
+                        >
+                          <p className="font-medium">
+                            {idx === 0
+                              ? `Departs in ${seg.jurisdiction === 'CA' ? 'Canada' : 'the US'}`
+                              : `Enters ${seg.jurisdiction === 'CA' ? 'Canada' : 'the US'} after ~${seg.startHours.toFixed(1)} hrs (${Math.round(borderCrossings[idx - 1].distance)} mi)`}
+                          </p>
+                          <p className="text-gray-600">
+                            {seg.rules.name}: ~{seg.hours.toFixed(1)} hrs of driving on this leg, {seg.rules.maxDriving}-hour
+                            driving limit
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
           </div>
         </div>
+
+        {/* Projected log sheets */}
+        {projected && projected.logs.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>Projected Logs</CardTitle>
+              <CardDescription>What the driver's logs will look like if the plan is followed</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs key={projected.logs[0].id} defaultValue={projected.logs[0].date}>
+                <TabsList>
+                  {projected.logs.map((log) => (
+                    <TabsTrigger key={log.id} value={log.date}>
+                      {new Date(`${log.date}T00:00:00`).toLocaleDateString('en-US', {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {projected.logs.map((log) => (
+                  <TabsContent key={log.id} value={log.date} className="mt-4 overflow-x-auto">
+                    <ELDLogBook
+                      log={log}
+                      driverName={user?.name || ''}
+                      licenseNumber={user?.licenseNumber || ''}
+                      history={projected.history}
+                      rules={getRuleSet(user?.ruleSetId)}
+                      ruleSwitches={projected.switches}
+                      exceptions={hosExceptions}
+                      projected
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { ELDLogBook } from './ELDLogBook';
+import { useAuth } from '../contexts/AuthContext';
+import { useTrips } from '../contexts/TripContext';
+import { DUTY_STATUS_LABELS, DutyStatus, periodsFromLogs } from '../utils/hos';
+import { getRuleSet } from '../utils/hosRules';
+import { certificationStatus } from '../utils/certification';
+import {
+  applyProposal,
+  diffEntries,
+  proposalLog,
+  proposedEntry,
+  trimmedByProposal,
+  EDITABLE_FIELD_LABELS,
+  FieldChange,
+  ProposedEdit,
+} from '../utils/logEdits';
+import { toast } from 'sonner';
+
+interface ProposedEditDialogProps {
+  proposal: ProposedEdit | null; // open while set
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatValue = (change: FieldChange, value: string): string => {
+  if (!value) return '—';
+  return change.field === 'status' ? DUTY_STATUS_LABELS[value as DutyStatus] : value;
+};
+
+// A carrier-proposed edit with the day's log before and after it, for the driver to accept or reject
+export function ProposedEditDialog({ proposal, onOpenChange }: ProposedEditDialogProps) {
+  const { user } = useAuth();
+  const { eldLogs, ruleSwitches, hosExceptions, certifications, acceptProposedEdit, rejectProposedEdit } = useTrips();
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setRejecting(false);
+    setReason('');
+  }, [proposal?.id]);
+
+  if (!proposal) return null;
+
+  const log = proposalLog(eldLogs, proposal);
+  const entry = proposal.entryId ? log?.logs.find((e) => e.id === proposal.entryId) : undefined;
+  const now = new Date();
+  const after = log ? applyProposal(log, proposal, now) : null;
+  const proposed = after ? proposedEntry(after, now) : undefined;
+  const changes = entry && proposed ? diffEntries(entry, proposed) : [];
+  const trimmed = log && after ? trimmedByProposal(log, after, proposal) : [];
+  const rules = getRuleSet(user?.ruleSetId);
+  const certified = !!log && !!certificationStatus(log, certifications).current;
+
+  const handleAccept = () => {
+    acceptProposedEdit(proposal.id);
+    toast.success('Edit accepted and added to your log');
+    onOpenChange(false);
+  };
+
+  const handleReject = () => {
+    rejectProposedEdit(proposal.id, reason);
+    toast.info('Edit rejected; your log is unchanged');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[95vw] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Proposed Log Edit</DialogTitle>
+          <DialogDescription>
+            Proposed by {proposal.proposedBy} on {new Date(proposal.proposedAt).toLocaleString()}. Nothing changes
+            until you accept it.
+            {certified && ' This day is certified; accepting the edit means it has to be certified again.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {log && after ? (
+          <>
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm space-y-1">
+              {!proposal.entryId && proposed && (
+                <p>
+                  <span className="text-gray-500">Adds:</span>{' '}
+                  <span className="text-green-700">
+                    {DUTY_STATUS_LABELS[proposed.status]} {proposed.startTime}–{proposed.endTime}
+                    {proposed.location && ` · ${proposed.location}`}
+                  </span>
+                </p>
+              )}
+              {changes.map((change) => (
+                <p key={change.field}>
+                  <span className="text-gray-500">{EDITABLE_FIELD_LABELS[change.field]}:</span>{' '}
+                  <span className="line-through text-red-600">{formatValue(change, change.from)}</span> →{' '}
+                  <span className="text-green-700">{formatValue(change, change.to)}</span>
+                </p>
+              ))}
+              {trimmed.map((e) => (
+                <p key={e.id}>
+                  <span className="text-gray-500">Trimmed to make room:</span> {DUTY_STATUS_LABELS[e.status]}{' '}
+                  {e.startTime}–{e.endTime}
+                </p>
+              ))}
+              <p className="text-xs text-gray-600 italic">“{proposal.annotation}”</p>
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+              {[
+                { label: 'Current log', value: log },
+                { label: 'With proposed edit', value: after },
+              ].map(({ label, value }) => (
+                <div key={label} className="border rounded-lg overflow-hidden">
+                  <p className="px-3 py-2 bg-gray-50 border-b text-sm">{label}</p>
+                  <div className="overflow-x-auto">
+                    <ELDLogBook
+                      log={value}
+                      driverName={user?.name || ''}
+                      licenseNumber={user?.licenseNumber || ''}
+                      history={periodsFromLogs(eldLogs.map((l) => (l.date === value.date ? value : l)))}
+                      rules={rules}
+                      ruleSwitches={ruleSwitches}
+                      exceptions={hosExceptions}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            {proposal.entryId
+              ? 'The entry this edit was proposed for has changed since it was proposed.'
+              : 'The proposed record is incomplete or its day is not on this device.'}{' '}
+            It can only be rejected.
+          </p>
+        )}
+
+        {rejecting && (
+          <div className="space-y-2">
+            <Label htmlFor="proposal-reason">Reason (optional)</Label>
+            <Textarea
+              id="proposal-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. I was off duty at the shipper, not loading"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          {rejecting ? (
+            <>
+              <Button variant="outline" onClick={() => setRejecting(false)}>
+                Back
+              </Button>
+              <Button variant="destructive" onClick={handleReject}>
+                Reject Edit
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setRejecting(true)}>
+                Reject
+              </Button>
+              <Button onClick={handleAccept} disabled={!after}>
+                Accept Edit
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Calendar, FileText, Download } from 'lucide-react';
+import { ArrowLeft, Calendar, FileText, Download, Route, Pencil, History, PenLine } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
@@ -22,17 +22,34 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { useTrips, ELDEntry } from '../contexts/TripContext';
 import { useAuth } from '../contexts/AuthContext';
 import { ELDLogBook } from './ELDLogBook';
+import { TrackMap, TrackPath } from './TrackMap';
+import { EntryEditDialog } from './EntryEditDialog';
+import { EntryHistoryDialog } from './EntryHistoryDialog';
+import { CertifyDialog } from './CertifyDialog';
+import { trackMiles } from '../utils/breadcrumbs';
+import { summarizeDutyTotals, violationsForDay, periodsFromLogs, toDateKey, SPECIAL_CATEGORIES } from '../utils/hos';
+import { getRuleSet } from '../utils/hosRules';
+import { rejectedProposals, EntryChanges } from '../utils/logEdits';
+import { certificationStatus } from '../utils/certification';
+import { toast } from 'sonner';
 
 interface RecapScreenProps {
   onNavigate: (screen: 'main' | 'new-trip' | 'recap' | 'activity') => void;
 }
 
 export function RecapScreen({ onNavigate }: RecapScreenProps) {
-  const { eldLogs } = useTrips();
+  const { eldLogs, ruleSwitches, hosExceptions, getTrack, editEntry, certifications } = useTrips();
   const { user } = useAuth();
   const [selectedDate, setSelectedDate] = useState(eldLogs[0]?.date || '');
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ELDEntry | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<ELDEntry | null>(null);
+  const [certifying, setCertifying] = useState(false);
 
   const selectedLog = eldLogs.find((log) => log.date === selectedDate);
+  const certification = selectedLog ? certificationStatus(selectedLog, certifications) : null;
+  // A day can be certified once it is over
+  const canCertify = !!selectedLog && selectedLog.date < toDateKey(new Date()) && !certification?.current;
 
   const getStatusLabel = (status: ELDEntry['status']) => {
     switch (status) {
@@ -64,23 +81,38 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
     }
   };
 
-  // Calculate daily totals
-  const dailyTotals = selectedLog
-    ? {
-        driving: selectedLog.logs
-          .filter((log) => log.status === 'driving')
-          .reduce((sum, log) => sum + log.duration, 0),
-        onDuty: selectedLog.logs
-          .filter((log) => log.status === 'on-duty-not-driving')
-          .reduce((sum, log) => sum + log.duration, 0),
-        offDuty: selectedLog.logs
-          .filter((log) => log.status === 'off-duty')
-          .reduce((sum, log) => sum + log.duration, 0),
-        sleeperBerth: selectedLog.logs
-          .filter((log) => log.status === 'sleeper-berth')
-          .reduce((sum, log) => sum + log.duration, 0),
-      }
-    : null;
+  const handleSaveEdit = (changes: EntryChanges, annotation: string) => {
+    if (!selectedLog || !editing) return;
+    editEntry(selectedLog.date, editing.id, changes, annotation);
+    toast.success(
+      certification?.current
+        ? 'Entry edited; recertify this day to sign off on the change'
+        : 'Entry edited; the original record was kept',
+    );
+    setEditing(null);
+  };
+
+  // Daily totals and compliance come from the HOS engine
+  const dailyTotals = selectedLog ? summarizeDutyTotals(selectedLog.logs) : null;
+  const history = periodsFromLogs(eldLogs);
+  const rules = getRuleSet(user?.ruleSetId);
+  const violationsByDate = Object.fromEntries(
+    eldLogs.map((log) => [
+      log.date,
+      violationsForDay(history, log.date, rules, { switches: ruleSwitches, exceptions: hosExceptions }),
+    ]),
+  );
+  const dailyViolations = selectedLog ? violationsByDate[selectedLog.date] : [];
+
+  // Driving segments of the day that have GPS breadcrumbs to draw
+  const drivingPaths: TrackPath[] = (selectedLog?.logs || [])
+    .filter((entry) => entry.status === 'driving')
+    .map((entry) => ({
+      id: entry.id,
+      label: `${entry.startTime} – ${entry.endTime}`,
+      points: entry.track && entry.track.length > 0 ? entry.track : getTrack(entry.id),
+    }))
+    .filter((path) => path.points.length >= 2);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -116,7 +148,13 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
             <CardDescription>Choose a date to view ELD logs</CardDescription>
           </CardHeader>
           <CardContent>
-            <Select value={selectedDate} onValueChange={setSelectedDate}>
+            <Select
+              value={selectedDate}
+              onValueChange={(date) => {
+                setSelectedDate(date);
+                setSelectedPath(null);
+              }}
+            >
               <SelectTrigger className="w-full md:w-64">
                 <SelectValue placeholder="Select a date" />
               </SelectTrigger>
@@ -129,6 +167,11 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                       month: 'long',
                       day: 'numeric',
                     })}
+                    {violationsByDate[log.date]?.length > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        {violationsByDate[log.date].length} violation{violationsByDate[log.date].length > 1 ? 's' : ''}
+                      </Badge>
+                    )}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -141,15 +184,27 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
             {/* Daily Summary */}
             <Card className="mb-6">
               <CardHeader>
-                <CardTitle>Daily Summary</CardTitle>
-                <CardDescription>
-                  {new Date(selectedLog.date).toLocaleDateString('en-US', {
-                    weekday: 'long',
-                    year: 'numeric',
-                    month: 'long',
-                    day: 'numeric',
-                  })}
-                </CardDescription>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <CardTitle>Daily Summary</CardTitle>
+                    <CardDescription>
+                      {new Date(selectedLog.date).toLocaleDateString('en-US', {
+                        weekday: 'long',
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                      {certification?.current &&
+                        ` · Certified ${new Date(certification.current.certifiedAt).toLocaleString()}`}
+                    </CardDescription>
+                  </div>
+                  {canCertify && (
+                    <Button variant={certification?.needsRecertification ? 'destructive' : 'default'} onClick={() => setCertifying(true)}>
+                      <PenLine className="mr-2 size-4" />
+                      {certification?.needsRecertification ? 'Recertify Log' : 'Certify Log'}
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -183,9 +238,10 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
 
             {/* Tabbed View - FMCSA Log Book and Details */}
             <Tabs defaultValue="logbook" className="w-full">
-              <TabsList className="grid w-full md:w-96 grid-cols-2">
+              <TabsList className="grid w-full md:w-[36rem] grid-cols-3">
                 <TabsTrigger value="logbook">FMCSA Log Book</TabsTrigger>
                 <TabsTrigger value="details">Detailed Table</TabsTrigger>
+                <TabsTrigger value="paths">Driving Paths</TabsTrigger>
               </TabsList>
               
               <TabsContent value="logbook" className="mt-6">
@@ -196,6 +252,11 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                         log={selectedLog} 
                         driverName={user?.name || ''} 
                         licenseNumber={user?.licenseNumber || ''} 
+                        history={history}
+                        rules={rules}
+                        ruleSwitches={ruleSwitches}
+                        exceptions={hosExceptions}
+                        certification={certification ?? undefined}
                       />
                     </div>
                   </CardContent>
@@ -226,6 +287,7 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                             <TableHead className="w-28 text-right">Odometer</TableHead>
                             <TableHead className="w-32 text-right">Engine Hours</TableHead>
                             <TableHead>Notes</TableHead>
+                            <TableHead className="w-24" />
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -239,9 +301,18 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                                 >
                                   {getStatusLabel(entry.status)}
                                 </Badge>
+                                {entry.specialCategory && (
+                                  <Badge variant="outline" className="ml-1">
+                                    {SPECIAL_CATEGORIES[entry.specialCategory].code}
+                                  </Badge>
+                                )}
+                                {entry.recordOrigin === 'auto' && (
+                                  <Badge variant="outline" className="ml-1">Auto</Badge>
+                                )}
                               </TableCell>
                               <TableCell className="max-w-xs truncate">
                                 {entry.location}
+                                {entry.locationSource === 'manual' && <span className="ml-1 text-xs text-gray-500">(manual)</span>}
                               </TableCell>
                               <TableCell className="text-right">
                                 {entry.duration.toFixed(1)} hrs
@@ -254,6 +325,19 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                               </TableCell>
                               <TableCell className="text-sm text-gray-600">
                                 {entry.notes || '—'}
+                                {entry.annotation && (
+                                  <p className="text-xs italic text-gray-500">Edited: {entry.annotation}</p>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right whitespace-nowrap">
+                                {(entry.supersedes || rejectedProposals(selectedLog, entry).length > 0) && (
+                                  <Button variant="ghost" size="sm" onClick={() => setViewingHistory(entry)} title="History">
+                                    <History className="size-4" />
+                                  </Button>
+                                )}
+                                <Button variant="ghost" size="sm" onClick={() => setEditing(entry)} title="Edit">
+                                  <Pencil className="size-4" />
+                                </Button>
                               </TableCell>
                             </TableRow>
                           ))}
@@ -276,8 +360,8 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                         </div>
                         <div>
                           <p className="text-gray-600">Compliance Status</p>
-                          <p className="mt-1 text-green-600">
-                            {dailyTotals && dailyTotals.driving <= 11
+                          <p className={`mt-1 ${dailyViolations.length === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {dailyViolations.length === 0
                               ? '✓ Compliant'
                               : '⚠ Review Required'}
                           </p>
@@ -294,6 +378,49 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="paths" className="mt-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Route className="size-5" />
+                      Driving Paths
+                    </CardTitle>
+                    <CardDescription>Routes actually driven, from GPS breadcrumbs recorded while driving</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {drivingPaths.length > 0 ? (
+                      <div className="space-y-4">
+                        <TrackMap key={selectedLog.date} paths={drivingPaths} selectedId={selectedPath} className="h-96" />
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            variant={selectedPath === null ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSelectedPath(null)}
+                          >
+                            All segments
+                          </Button>
+                          {drivingPaths.map((path) => (
+                            <Button
+                              key={path.id}
+                              variant={selectedPath === path.id ? 'default' : 'outline'}
+                              size="sm"
+                              onClick={() => setSelectedPath(path.id)}
+                            >
+                              {path.label} · {trackMiles(path.points).toFixed(1)} mi
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="py-12 text-center text-gray-500">
+                        <Route className="size-12 mx-auto mb-2 opacity-20" />
+                        <p>No GPS tracks were recorded for this day's driving</p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </>
         ) : (
@@ -305,6 +432,26 @@ export function RecapScreen({ onNavigate }: RecapScreenProps) {
           </Card>
         )}
       </main>
+
+      <EntryEditDialog
+        entry={editing}
+        log={selectedLog}
+        certified={!!certification?.current}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSaveEdit}
+      />
+      {selectedLog && (
+        <EntryHistoryDialog
+          log={selectedLog}
+          entry={viewingHistory}
+          onOpenChange={(open) => !open && setViewingHistory(null)}
+        />
+      )}
+      <CertifyDialog
+        date={certifying && selectedLog ? selectedLog.date : null}
+        recertify={certification?.needsRecertification}
+        onOpenChange={(open) => !open && setCertifying(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import React, { useRef, useState } from 'react';
+import { DndProvider, useDrag, useDrop } from 'react-dnd';
+import { HTML5Backend } from 'react-dnd-html5-backend';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { TripStop } from '../contexts/TripContext';
+import { GeoProvider, Suggestion } from '../utils/geocode';
+
+interface StopListProps {
+  stops: TripStop[];
+  onChange: (stops: TripStop[]) => void;
+  provider: GeoProvider;
+}
+
+interface StopRowProps {
+  stop: TripStop;
+  index: number;
+  canRemove: boolean;
+  provider: GeoProvider;
+  moveStop: (from: number, to: number) => void;
+  onChange: (patch: Partial<TripStop>) => void;
+  onRemove: () => void;
+}
+
+const STOP_ITEM = 'trip-stop';
+
+interface DragItem {
+  index: number;
+}
+
+export const createStop = (type: TripStop['type']): TripStop => ({
+  id: `stop-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  type,
+  location: '',
+  lat: 0,
+  lon: 0,
+});
+
+function StopRow({ stop, index, canRemove, provider, moveStop, onChange, onRemove }: StopRowProps) {
+  const rowRef = useRef<HTMLDivElement | null>(null);
+  const handleRef = useRef<HTMLDivElement | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+
+  const [, drop] = useDrop<DragItem>({
+    accept: STOP_ITEM,
+    hover(item, monitor) {
+      if (!rowRef.current || item.index === index) return;
+      // Only move once the pointer has crossed the middle of the hovered row
+      const rect = rowRef.current.getBoundingClientRect();
+      const middle = (rect.bottom - rect.top) / 2;
+      const offset = (monitor.getClientOffset()?.y ?? 0) - rect.top;
+      if (item.index < index && offset < middle) return;
+      if (item.index > index && offset > middle) return;
+      moveStop(item.index, index);
+      item.index = index;
+    },
+  });
+
+  const [{ isDragging }, drag, preview] = useDrag({
+    type: STOP_ITEM,
+    item: (): DragItem => ({ index }),
+    collect: (monitor) => ({ isDragging: monitor.isDragging() }),
+  });
+
+  drag(handleRef);
+  preview(drop(rowRef));
+
+  return (
+    <div
+      ref={rowRef}
+      className={`flex gap-2 p-3 border rounded-lg bg-white ${isDragging ? 'opacity-40' : ''}`}
+    >
+      <div ref={handleRef} className="flex flex-col items-center gap-1 pt-2 cursor-move text-gray-400">
+        <GripVertical className="size-4" />
+        <span className="text-xs">{index + 1}</span>
+      </div>
+
+      <div className="flex-1 space-y-2">
+        <div className="flex gap-2">
+          <Select value={stop.type} onValueChange={(value) => onChange({ type: value as TripStop['type'] })}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pickup">Pickup</SelectItem>
+              <SelectItem value="dropoff">Drop-off</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="relative flex-1">
+            <Input
+              value={stop.location}
+              onChange={(e) => {
+                const v = e.target.value;
+                onChange({ location: v, lat: 0, lon: 0 });
+                provider.autocomplete(v).then((res) => { setSuggestions(res); setShowSuggestions(true); });
+              }}
+              onFocus={() => { if (suggestions.length) setShowSuggestions(true); }}
+              onBlur={() => setShowSuggestions(false)}
+              placeholder={stop.type === 'pickup' ? 'Pickup address' : 'Drop-off address'}
+            />
+            {showSuggestions && suggestions.length > 0 && (
+              <div className="absolute z-40 mt-1 w-full bg-white rounded-md shadow-lg max-h-60 overflow-auto">
+                {suggestions.map((s) => (
+                  <div
+                    key={s.label}
+                    className="px-3 py-2 hover:bg-gray-100 cursor-pointer"
+                    // mousedown fires before the input's blur hides the list
+                    onMouseDown={() => {
+                      onChange({ location: s.label, lat: s.lat, lon: s.lon });
+                      setShowSuggestions(false);
+                    }}
+                  >
+                    {s.label}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Button type="button" variant="ghost" size="icon" onClick={onRemove} disabled={!canRemove}>
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-gray-500 whitespace-nowrap">Appointment</Label>
+          <Input
+            type="datetime-local"
+            className="h-8 text-xs"
+            value={stop.appointmentStart || ''}
+            onChange={(e) => onChange({ appointmentStart: e.target.value || undefined })}
+          />
+          <span className="text-xs text-gray-500">to</span>
+          <Input
+            type="datetime-local"
+            className="h-8 text-xs"
+            value={stop.appointmentEnd || ''}
+            onChange={(e) => onChange({ appointmentEnd: e.target.value || undefined })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function StopList({ stops, onChange, provider }: StopListProps) {
+  const moveStop = (from: number, to: number) => {
+    const next = [...stops];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const updateStop = (index: number, patch: Partial<TripStop>) => {
+    onChange(stops.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  };
+
+  return (
+    <DndProvider backend={HTML5Backend}>
+      <div className="space-y-2">
+        {stops.map((stop, index) => (
+          <StopRow
+            key={stop.id}
+            stop={stop}
+            index={index}
+            canRemove={stops.length > 2}
+            provider={provider}
+            moveStop={moveStop}
+            onChange={(patch) => updateStop(index, patch)}
+            onRemove={() => onChange(stops.filter((_, i) => i !== index))}
+          />
+        ))}
+        <Button type="button" variant="outline" className="w-full" onClick={() => onChange([...stops, createStop('dropoff')])}>
+          <Plus className="mr-2 size-4" />
+          Add Stop
+        </Button>
+      </div>
+    </DndProvider>
+  );
+}
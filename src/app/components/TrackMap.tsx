@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import maplibregl from 'maplibre-gl';
+import 'maplibre-gl/dist/maplibre-gl.css';
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import type { TrackPoint } from '../utils/breadcrumbs';
+import { getMapStyle, fallBackToOfflineStyle, OFFLINE_MAP_STYLE } from '../utils/mapStyle';
+
+export interface TrackPath {
+  id: string;
+  label: string;
+  points: TrackPoint[];
+}
+
+interface TrackMapProps {
+  paths: TrackPath[];
+  selectedId?: string | null;
+  className?: string;
+}
+
+// Paths actually driven, drawn from GPS breadcrumbs; the selected path is highlighted
+export function TrackMap({ paths, selectedId, className = 'h-72' }: TrackMapProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<MaplibreMap | null>(null);
+  const [mapStyle, setMapStyle] = useState(getMapStyle);
+
+  const data = useMemo(
+    () =>
+      ({
+        type: 'FeatureCollection',
+        features: paths.flatMap((path) => {
+          const coords = path.points.map((p) => [p.lon, p.lat]);
+          const selected = !selectedId || path.id === selectedId;
+          return [
+            {
+              type: 'Feature',
+              properties: { id: path.id, kind: 'line', selected },
+              geometry: { type: 'LineString', coordinates: coords },
+            },
+            {
+              type: 'Feature',
+              properties: { id: path.id, kind: 'start', selected },
+              geometry: { type: 'Point', coordinates: coords[0] },
+            },
+            {
+              type: 'Feature',
+              properties: { id: path.id, kind: 'end', selected },
+              geometry: { type: 'Point', coordinates: coords[coords.length - 1] },
+            },
+          ];
+        }),
+      }) as GeoJSON.FeatureCollection,
+    [paths, selectedId],
+  );
+  const dataRef = useRef(data);
+  dataRef.current = data;
+
+  // Frame the selected path, or every path when none is selected
+  const fit = () => {
+    if (!mapRef.current) return;
+    const points = paths.filter((p) => !selectedId || p.id === selectedId).flatMap((p) => p.points);
+    if (points.length === 0) return;
+    const bounds = new maplibregl.LngLatBounds();
+    points.forEach((p) => bounds.extend([p.lon, p.lat]));
+    mapRef.current.fitBounds(bounds, { padding: 40, maxZoom: 14, duration: 0 });
+  };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = new maplibregl.Map({ container: containerRef.current, style: mapStyle.style, center: [-98, 39], zoom: 3 });
+    mapRef.current = map;
+    map.addControl(new maplibregl.NavigationControl());
+    fallBackToOfflineStyle(map, () => setMapStyle(OFFLINE_MAP_STYLE));
+    // A style swap drops custom layers, so add the tracks whenever a style finishes loading
+    map.on('style.load', () => {
+      if (map.getSource('tracks')) return;
+      map.addSource('tracks', { type: 'geojson', data: dataRef.current });
+      map.addLayer({
+        id: 'track-line',
+        type: 'line',
+        source: 'tracks',
+        filter: ['==', ['get', 'kind'], 'line'],
+        layout: { 'line-join': 'round', 'line-cap': 'round', 'line-sort-key': ['case', ['get', 'selected'], 1, 0] },
+        paint: {
+          'line-color': ['case', ['get', 'selected'], '#16a34a', '#9ca3af'],
+          'line-width': ['case', ['get', 'selected'], 5, 3],
+        },
+      });
+      map.addLayer({
+        id: 'track-ends',
+        type: 'circle',
+        source: 'tracks',
+        filter: ['!=', ['get', 'kind'], 'line'],
+        paint: {
+          'circle-radius': 6,
+          'circle-color': ['case', ['==', ['get', 'kind'], 'start'], '#16a34a', '#dc2626'],
+          'circle-opacity': ['case', ['get', 'selected'], 1, 0.4],
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2,
+        },
+      });
+    });
+    map.once('load', fit);
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const src = mapRef.current?.getSource('tracks') as maplibregl.GeoJSONSource | undefined;
+    if (src) src.setData(data);
+    fit();
+  }, [data]);
+
+  return (
+    <div className={`relative w-full rounded-lg overflow-hidden ${className}`}>
+      <div ref={containerRef} className="w-full h-full" />
+      {mapStyle.source === 'offline' && (
+        <p className="absolute bottom-2 left-2 px-2 py-1 rounded bg-white/80 text-xs text-gray-500">Offline map</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { HAZMAT_CLASSES, HazmatClass, TruckDimension, TruckProfile } from '../utils/truck';
+import { getGeoProvider } from '../utils/geocode';
+
+interface TruckProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  truck: TruckProfile;
+  onSave: (truck: TruckProfile) => void;
+}
+
+type NumericField = 'height' | 'width' | 'length' | 'grossWeight' | 'axles';
+
+const FIELDS: Array<{ key: NumericField; label: string; step: string }> = [
+  { key: 'height', label: 'Height (ft)', step: '0.1' },
+  { key: 'width', label: 'Width (ft)', step: '0.1' },
+  { key: 'length', label: 'Length (ft)', step: '0.5' },
+  { key: 'grossWeight', label: 'Gross Weight (lb)', step: '1000' },
+  { key: 'axles', label: 'Axles', step: '1' },
+];
+
+export function TruckProfileDialog({ open, onOpenChange, truck, onSave }: TruckProfileDialogProps) {
+  const [draft, setDraft] = useState<TruckProfile>(truck);
+
+  // Start from the saved profile each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(truck);
+  }, [open, truck]);
+
+  const valid = FIELDS.every(({ key }) => Number.isFinite(draft[key]) && draft[key] > 0);
+  const provider = getGeoProvider();
+  const ignored = (dimension: TruckDimension) => !provider.truckDimensions.includes(dimension);
+  const ignoredNote = <p className="text-xs text-amber-700">Not used by {provider.name} routing</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Assigned Truck</DialogTitle>
+          <DialogDescription>
+            Vehicle dimensions used when planning truck routes.
+            {provider.truckDimensions.length === 0
+              && ` ${provider.name} routes ignore the truck profile; dimensions are only checked against standard truck limits.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="truck-unit">Unit Number</Label>
+            <Input
+              id="truck-unit"
+              value={draft.unitNumber}
+              onChange={(e) => setDraft({ ...draft, unitNumber: e.target.value })}
+              placeholder="e.g., 1042"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {FIELDS.map(({ key, label, step }) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`truck-${key}`}>{label}</Label>
+                <Input
+                  id={`truck-${key}`}
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={Number.isFinite(draft[key]) ? draft[key] : ''}
+                  onChange={(e) => setDraft({ ...draft, [key]: parseFloat(e.target.value) })}
+                />
+                {ignored(key) && ignoredNote}
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Hazmat</Label>
+            <Select
+              value={draft.hazmatClass ?? 'none'}
+              onValueChange={(v) => setDraft({ ...draft, hazmatClass: v === 'none' ? null : (v as HazmatClass) })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                {(Object.keys(HAZMAT_CLASSES) as HazmatClass[]).map((c) => (
+                  <SelectItem key={c} value={c}>
+                    {HAZMAT_CLASSES[c]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {ignored('hazmat') && ignoredNote}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!valid}
+            onClick={() => {
+              onSave(draft);
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
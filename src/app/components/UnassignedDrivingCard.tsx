@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Inbox, MapPin } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { useTrips } from '../contexts/TripContext';
+import { unidentifiedHours, unidentifiedMiles, UnidentifiedEvent } from '../utils/unidentified';
+import { toast } from 'sonner';
+
+const formatTime = (ms: number): string =>
+  new Date(ms).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Driving recorded on this vehicle while nobody was logged in, for the driver to claim or reject
+export function UnassignedDrivingCard() {
+  const { unidentifiedEvents, unidentifiedAudit, claimUnidentified, rejectUnidentified } = useTrips();
+  const [rejecting, setRejecting] = useState<UnidentifiedEvent | null>(null);
+  const [reason, setReason] = useState('');
+
+  const pending = unidentifiedEvents.filter((e) => e.status === 'unassigned').sort((a, b) => a.start - b.start);
+  const decisions = [...unidentifiedAudit].sort((a, b) => b.at - a.at).slice(0, 5);
+  if (pending.length === 0 && decisions.length === 0) return null;
+
+  const handleClaim = (event: UnidentifiedEvent) => {
+    claimUnidentified(event.id);
+    toast.success(`Added ${unidentifiedHours(event).toFixed(2)} hrs of driving to your log`);
+  };
+
+  const handleConfirmReject = () => {
+    if (!rejecting) return;
+    rejectUnidentified(rejecting.id, reason);
+    toast.info('Left on the vehicle’s unidentified driving record');
+    setRejecting(null);
+    setReason('');
+  };
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="size-5" />
+          Unassigned Driving
+          {pending.length > 0 && <Badge className="bg-amber-500 text-white">{pending.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Driving recorded on this vehicle while no one was logged in. Claim the events that were yours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pending.map((event) => (
+          <div key={event.id} className="flex flex-wrap items-center justify-between gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <div>
+              <p className="font-semibold">
+                {formatTime(event.start)} – {formatTime(event.end)}
+              </p>
+              <p className="flex items-center gap-1 text-sm text-gray-600">
+                <MapPin className="size-4" />
+                {event.startLocation || 'Unknown'} → {event.endLocation || 'Unknown'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {unidentifiedMiles(event).toFixed(1)} mi · {unidentifiedHours(event).toFixed(2)} hrs
+                {event.vehicle && ` · Unit ${event.vehicle}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setRejecting(event)}>
+                Not Me
+              </Button>
+              <Button onClick={() => handleClaim(event)}>Claim</Button>
+            </div>
+          </div>
+        ))}
+
+        {pending.length === 0 && <p className="text-sm text-gray-500">No unassigned driving to review.</p>}
+
+        {decisions.length > 0 && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-gray-500 mb-2">Recent decisions</p>
+            {decisions.map((entry) => {
+              const event = unidentifiedEvents.find((e) => e.id === entry.eventId);
+              return (
+                <p key={entry.id} className="text-xs text-gray-600">
+                  {formatTime(entry.at)} — {entry.driverName} {entry.action}{' '}
+                  {event ? `driving from ${formatTime(event.start)}` : 'an event'}
+                  {entry.note && ` (${entry.note})`}
+                </p>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Reject unassigned driving</DialogTitle>
+            <DialogDescription>
+              The event stays on the vehicle’s unidentified driving record for the carrier to review.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Label htmlFor="reject-reason">Reason (optional)</Label>
+            <Textarea
+              id="reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Truck was moved by the shop"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmReject}>Reject</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
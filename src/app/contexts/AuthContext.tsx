@@ -1,13 +1,15 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 import { obtainToken, setTokens, clearTokens, fetchMe } from '../utils/api';
+import { DEFAULT_RULE_SET_ID, HosRuleSetId, getRuleSet } from '../utils/hosRules';
+import { DEFAULT_TRUCK, TruckProfile, loadTruck } from '../utils/truck';
 
 export interface User {
   id: string;
   name: string;
   email: string;
   licenseNumber: string;
-  cycleHoursUsed: number;
-  cycleHoursLimit: number;
+  ruleSetId: HosRuleSetId;
+  truck: TruckProfile; // assigned truck, used for truck routing
 }
 
 interface AuthContextType {
@@ -15,7 +17,8 @@ interface AuthContextType {
   login: (username: string, password: string) => Promise<boolean>;
   loginWithGoogle: () => Promise<boolean>;
   logout: () => void;
-  updateCycleHours: (hours: number) => void;
+  updateRuleSet: (ruleSetId: HosRuleSetId) => void;
+  updateTruck: (truck: TruckProfile) => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,10 +29,13 @@ const mockUser: User = {
   name: 'John Driver',
   email: 'john.driver@example.com',
   licenseNumber: 'CDL-12345678',
-  cycleHoursUsed: 45.5,
-  cycleHoursLimit: 70,
+  ruleSetId: DEFAULT_RULE_SET_ID,
+  truck: DEFAULT_TRUCK,
 };
 
+// The selected rule set is kept per device until the backend stores it on the driver profile
+const loadRuleSetId = (): HosRuleSetId => getRuleSet(localStorage.getItem('tl_rule_set')).id;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
 
@@ -39,7 +45,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (res.ok && res.data && res.data.access && res.data.refresh) {
         setTokens({ access: res.data.access, refresh: res.data.refresh });
         // Minimal user info until backend provides a user endpoint
-        setUser({ ...mockUser, name: username, email: username });
+        setUser({ ...mockUser, name: username, email: username, ruleSetId: loadRuleSetId(), truck: loadTruck() });
         fetchMe();
         return true;
       }
@@ -57,6 +63,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       ...mockUser,
       name: 'John Driver (Google)',
       email: 'john.driver@gmail.com',
+      ruleSetId: loadRuleSetId(),
+      truck: loadTruck(),
     });
     return true;
   };
@@ -66,17 +74,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(null);
   };
 
-  const updateCycleHours = (hours: number) => {
+  const updateRuleSet = (ruleSetId: HosRuleSetId) => {
+    localStorage.setItem('tl_rule_set', ruleSetId);
+    if (user) {
+      setUser({ ...user, ruleSetId });
+    }
+  };
+
+  const updateTruck = (truck: TruckProfile) => {
+    localStorage.setItem('tl_truck', JSON.stringify(truck));
     if (user) {
-      setUser({
-        ...user,
-        cycleHoursUsed: Math.min(user.cycleHoursUsed + hours, user.cycleHoursLimit),
-      });
+      setUser({ ...user, truck });
     }
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, loginWithGoogle, logout, updateCycleHours }}>
+    <AuthContext.Provider value={{ user, login, loginWithGoogle, logout, updateRuleSet, updateTruck }}>
       {children}
     </AuthContext.Provider>
   );
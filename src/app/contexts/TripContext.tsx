@@ -1,5 +1,81 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
 import { fetchWithAuth, getLocalUser } from '../utils/api';
+import {
+  evaluateHos,
+  periodsFromLogs,
+  entryToPeriod,
+  periodFromActivity,
+  toDateKey,
+  HosStatus,
+  DutyPeriod,
+  RuleSwitch,
+  HosException,
+  HosExceptionType,
+  SpecialCategory,
+  isSpecialCategory,
+} from '../utils/hos';
+import { requestNotificationPermission, showNotification } from '../utils/notify';
+import { getRuleSet, ruleSetForJurisdiction } from '../utils/hosRules';
+import { jurisdictionAt, BorderCrossing, BORDER_CONFIRM_FIXES, Jurisdiction } from '../utils/geo';
+import { captureLocation, reducePrecision, CapturedLocation, LocationSource } from '../utils/location';
+import { getGeoProvider } from '../utils/geocode';
+import {
+  getMotionSource,
+  MotionSample,
+  DRIVING_SPEED_MPH,
+  STATIONARY_PROMPT_MS,
+  PROMPT_TIMEOUT_MS,
+} from '../utils/motion';
+import { loadTracks, saveTracks, shouldRecord, toTrackPoint, TrackPoint, TrackStore, TRACK_SYNC_BATCH } from '../utils/breadcrumbs';
+import {
+  loadUnidentified,
+  saveUnidentified,
+  unidentifiedHours,
+  unidentifiedMiles,
+  UnidentifiedAuditEntry,
+  UnidentifiedEvent,
+  UnidentifiedRecord,
+  UNIDENTIFIED_MIN_MILES,
+} from '../utils/unidentified';
+import { loadTruck } from '../utils/truck';
+import { loadCertifications, saveCertifications, Certification, SignatureMethod } from '../utils/certification';
+import {
+  applyEdit,
+  applyProposal,
+  clearPeriod,
+  originalRecordId,
+  recordRejectedEdit,
+  proposalLog,
+  loadProposedEdits,
+  saveProposedEdits,
+  loadEditedLogs,
+  saveEditedLogs,
+  withEditedLogs,
+  EntryChanges,
+  ProposedEdit,
+} from '../utils/logEdits';
+import { useAuth } from './AuthContext';
+
+export interface TripStop {
+  id: string;
+  type: 'pickup' | 'dropoff';
+  location: string;
+  lat: number;
+  lon: number;
+  appointmentStart?: string; // local date-time (YYYY-MM-DDTHH:MM)
+  appointmentEnd?: string;
+}
+
+// Route alternative the driver chose when planning the trip
+export interface TripRoute {
+  label: string;
+  distance: number; // in miles
+  duration: number; // driving hours
+  tollMiles: number;
+  estimatedTolls: number; // USD
+  coords?: [number, number][]; // [lon, lat]
+}
 
 export interface Trip {
   id: string;
@@ -11,25 +87,48 @@ export interface Trip {
   status: 'completed' | 'in-progress' | 'planned';
   distance: number; // in miles
   duration: number; // in hours
+  borderCrossings?: BorderCrossing[]; // points on the route where a different rule set takes over
+  stops?: TripStop[]; // every pickup and drop-off in route order
+  route?: TripRoute;
 }
 
 export interface ELDLog {
   id: string;
   date: string;
   driverId: string;
-  logs: ELDEntry[];
+  logs: ELDEntry[]; // active records
+  inactiveLogs?: ELDEntry[]; // originals kept after an edit
+  changedAt?: string; // ISO timestamp of the last change to an active record; certification must be newer
 }
 
+// 'auto' when the ELD recorded the event on its own, 'driver' when the driver entered it,
+// 'carrier' when back-office staff proposed it and the driver accepted
+export type RecordOrigin = 'auto' | 'driver' | 'carrier';
+
+// Records are never overwritten; an edit makes the original inactive and adds the edited version.
+// A carrier-proposed edit the driver rejected is kept as an inactive record too.
+export type RecordStatus = 'active' | 'inactive-changed' | 'inactive-change-rejected';
+
 export interface ELDEntry {
   id: string;
   startTime: string;
   endTime: string;
   status: 'off-duty' | 'sleeper-berth' | 'driving' | 'on-duty-not-driving';
   location: string;
+  lat?: number;
+  lon?: number;
+  locationSource?: LocationSource; // 'manual' when the driver typed the location in without a GPS fix
   duration: number; // in hours
   odometer: number;
   engineHours: number;
   notes?: string;
+  track?: TrackPoint[]; // GPS breadcrumbs recorded while driving
+  recordOrigin?: RecordOrigin;
+  specialCategory?: SpecialCategory; // personal conveyance (off duty) or yard move (on duty)
+  recordStatus?: RecordStatus; // missing on records that were never edited
+  supersedes?: string; // id of the record this edit replaced
+  annotation?: string; // the driver's reason for the edit
+  editedAt?: string; // ISO timestamp
 }
 
 export interface ActiveActivity {
@@ -37,7 +136,18 @@ export interface ActiveActivity {
   status: 'off-duty' | 'sleeper-berth' | 'driving' | 'on-duty-not-driving';
   startTime: string; // ISO timestamp
   location: string;
+  lat?: number;
+  lon?: number;
+  locationSource?: LocationSource;
   notes?: string;
+  recordOrigin?: RecordOrigin;
+  specialCategory?: SpecialCategory;
+}
+
+// Raised after the vehicle has been stopped for a while during driving
+export interface DrivingPrompt {
+  stoppedAt: number; // epoch ms
+  deadline: number; // epoch ms; the status switches to on-duty if unanswered by then
 }
 
 export interface CompletedActivity extends ELDEntry {
@@ -51,12 +161,73 @@ interface TripContextType {
   todayActivities: CompletedActivity[];
   addTrip: (trip: Omit<Trip, 'id' | 'status'>) => void;
   getELDLogByDate: (date: string) => ELDLog | undefined;
-  startActivity: (status: ActiveActivity['status'], notes?: string) => void;
+  getDutyHistory: (now?: Date) => DutyPeriod[];
+  getHosStatus: (now?: Date) => HosStatus;
+  alertThresholds: number[]; // minutes before a limit at which to warn while driving
+  setAlertThresholds: (minutes: number[]) => void;
+  ruleSwitches: RuleSwitch[];
+  reportPosition: (lat: number, lon: number, location?: string) => void;
+  tracks: TrackStore; // breadcrumbs by activity id, including the running activity
+  getTrack: (activityId: string) => TrackPoint[];
+  hosExceptions: HosException[];
+  claimException: (type: Exclude<HosExceptionType, 'short-haul-exempt'>, annotation: string) => void;
+  setExemptMode: (enabled: boolean, annotation?: string) => void;
+  startActivity: (
+    status: ActiveActivity['status'],
+    notes?: string,
+    location?: CapturedLocation,
+    origin?: RecordOrigin,
+    specialCategory?: SpecialCategory,
+  ) => void;
   stopActivity: () => CompletedActivity | null;
+  drivingPrompt: DrivingPrompt | null;
+  answerDrivingPrompt: (status: ActiveActivity['status']) => void;
+  unidentifiedEvents: UnidentifiedEvent[]; // driving recorded on this vehicle with no driver logged in
+  unidentifiedAudit: UnidentifiedAuditEntry[];
+  claimUnidentified: (eventId: string) => void;
+  rejectUnidentified: (eventId: string, note?: string) => void;
+  editEntry: (date: string, entryId: string, changes: EntryChanges, annotation: string) => void;
+  proposedEdits: ProposedEdit[]; // edits the carrier proposed to this driver's log
+  acceptProposedEdit: (id: string) => void;
+  rejectProposedEdit: (id: string, reason?: string) => void;
+  certifications: Certification[]; // every certify event, including ones superseded by edits
+  certifyLog: (date: string, method: SignatureMethod, signature: string) => void;
 }
 
 const TripContext = createContext<TripContextType | undefined>(undefined);
 
+const DEFAULT_ALERT_THRESHOLDS = [60, 30, 15];
+
+const loadRuleSwitches = (): RuleSwitch[] => {
+  const raw = localStorage.getItem('tl_rule_switches');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const loadHosExceptions = (): HosException[] => {
+  const raw = localStorage.getItem('tl_hos_exceptions');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const loadAlertThresholds = (): number[] => {
+  const raw = localStorage.getItem('tl_hos_alerts');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed.filter((m) => typeof m === 'number') : DEFAULT_ALERT_THRESHOLDS;
+  } catch {
+    return DEFAULT_ALERT_THRESHOLDS;
+  }
+};
+
 // Mock data
 const mockTrips: Trip[] = [
   {
@@ -193,13 +364,158 @@ const mockELDLogs: ELDLog[] = [
       },
     ],
   },
+  {
+    id: 'log-3',
+    date: '2026-01-04',
+    driverId: '1',
+    logs: [
+      {
+        id: 'entry-9',
+        startTime: '00:00',
+        endTime: '00:30',
+        status: 'on-duty-not-driving',
+        location: 'Reno, NV',
+        duration: 0.5,
+        odometer: 144630,
+        engineHours: 8505,
+        notes: 'Pre-trip inspection',
+      },
+      {
+        id: 'entry-10',
+        startTime: '00:30',
+        endTime: '05:30',
+        status: 'driving',
+        location: 'Reno, NV → Sacramento, CA',
+        duration: 5.0,
+        odometer: 144760,
+        engineHours: 8510,
+      },
+      {
+        id: 'entry-11',
+        startTime: '05:30',
+        endTime: '12:30',
+        status: 'sleeper-berth',
+        location: 'Sacramento, CA',
+        duration: 7.0,
+        odometer: 144760,
+        engineHours: 8510,
+        notes: 'Split sleeper - first period',
+      },
+      {
+        id: 'entry-12',
+        startTime: '12:30',
+        endTime: '15:00',
+        status: 'driving',
+        location: 'Sacramento, CA → San Francisco, CA',
+        duration: 2.5,
+        odometer: 144848,
+        engineHours: 8512.5,
+      },
+      {
+        id: 'entry-13',
+        startTime: '15:00',
+        endTime: '18:00',
+        status: 'off-duty',
+        location: 'San Francisco, CA',
+        duration: 3.0,
+        odometer: 144848,
+        engineHours: 8512.5,
+        notes: 'Split sleeper - second period',
+      },
+      {
+        id: 'entry-14',
+        startTime: '18:00',
+        endTime: '18:30',
+        status: 'on-duty-not-driving',
+        location: 'San Francisco, CA',
+        duration: 0.5,
+        odometer: 144848,
+        engineHours: 8513,
+        notes: 'Fueling',
+      },
+    ],
+  },
 ];
 
+const mapActivityTypeToStatus = (t: string | undefined) => {
+  switch (t) {
+    case 'ONDUTY':
+      return 'on-duty-not-driving';
+    case 'OFFDUTY':
+      return 'off-duty';
+    case 'DRIVING':
+      return 'driving';
+    case 'SLEEPER':
+      return 'sleeper-berth';
+    default:
+      return 'off-duty';
+  }
+};
+
+// Proposed edits from the backend; times are HH:MM on the entry's day like the entries themselves.
+// Proposals without an entry_id add a record to the given date.
+const mapProposedEdit = (a: any): ProposedEdit => ({
+  id: String(a.id),
+  entryId: a.entry_id != null ? String(a.entry_id) : undefined,
+  date: a.date || undefined,
+  changes: {
+    ...(a.activity_type ? { status: mapActivityTypeToStatus(a.activity_type) as ELDEntry['status'] } : {}),
+    ...(a.start_time ? { startTime: a.start_time } : {}),
+    ...(a.end_time ? { endTime: a.end_time } : {}),
+    ...(typeof a.location === 'string' ? { location: a.location } : {}),
+    ...(typeof a.notes === 'string' ? { notes: a.notes } : {}),
+  },
+  annotation: a.annotation || '',
+  proposedBy: a.proposed_by || 'Carrier',
+  proposedAt: a.proposed_at || new Date().toISOString(),
+  status: a.status === 'accepted' || a.status === 'rejected' ? a.status : 'pending',
+});
+
+const mapStatusToActivityType = (s: ActiveActivity['status']) => {
+  switch (s) {
+    case 'on-duty-not-driving':
+      return 'ONDUTY';
+    case 'off-duty':
+      return 'OFFDUTY';
+    case 'driving':
+      return 'DRIVING';
+    case 'sleeper-berth':
+      return 'SLEEPER';
+    default:
+      return 'OFFDUTY';
+  }
+};
+
 export function TripProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
   const [trips, setTrips] = useState<Trip[]>([]);
-  const [eldLogs, setEldLogs] = useState<ELDLog[]>(mockELDLogs);
+  const [eldLogs, setEldLogs] = useState<ELDLog[]>(() => withEditedLogs(mockELDLogs, loadEditedLogs()));
   const [activeActivity, setActiveActivity] = useState<ActiveActivity | null>(null);
   const [todayActivities, setTodayActivities] = useState<CompletedActivity[]>([]);
+  const [tracks, setTracks] = useState<TrackStore>(loadTracks);
+  const tracksRef = useRef<TrackStore>(tracks);
+  const unsyncedTrack = useRef<TrackStore>({}); // points not yet accepted by the backend
+  const [drivingPrompt, setDrivingPrompt] = useState<DrivingPrompt | null>(null);
+  const lastSample = useRef<MotionSample | null>(null);
+  const stationarySince = useRef<number | null>(null);
+  const pendingStatus = useRef<ActiveActivity['status'] | null>(null); // automatic switch in flight
+  // Latest handlers, for callbacks registered once
+  const motionRef = useRef<(sample: MotionSample) => void>(() => {});
+  const switchRef = useRef<(status: ActiveActivity['status'], origin: RecordOrigin, location: CapturedLocation | null) => void>(() => {});
+  const positionRef = useRef<(pos: GeolocationPosition) => void>(() => {});
+  const [alertThresholds, setAlertThresholdsState] = useState<number[]>(loadAlertThresholds);
+  const lastRemaining = useRef<Record<string, number>>({});
+  const [ruleSwitches, setRuleSwitches] = useState<RuleSwitch[]>(loadRuleSwitches);
+  const ruleSwitchesRef = useRef<RuleSwitch[]>(ruleSwitches);
+  // Fixes seen on the other side of the border since the last one on this side
+  const pendingCrossing = useRef<{ jurisdiction: Jurisdiction; at: number; location?: string; fixes: number } | null>(null);
+  const [hosExceptions, setHosExceptions] = useState<HosException[]>(loadHosExceptions);
+  const [unidentified, setUnidentified] = useState<UnidentifiedRecord>(loadUnidentified);
+  const unidentifiedRef = useRef<UnidentifiedRecord>(unidentified);
+  const openUnidentified = useRef<string | null>(null); // id of the unidentified event being recorded
+  const unidentifiedMotionRef = useRef<(sample: MotionSample) => void>(() => {});
+  const [proposedEdits, setProposedEdits] = useState<ProposedEdit[]>(loadProposedEdits);
+  const [certifications, setCertifications] = useState<Certification[]>(loadCertifications);
 
   const addTrip = (trip: Omit<Trip, 'id' | 'status'>) => {
     // Try create on backend
@@ -213,6 +529,8 @@ export function TripProvider({ children }: { children: ReactNode }) {
             pickup_location: trip.pickupLocation,
             dropoff_location: trip.dropoffLocation,
             estimated_cycle_used: trip.cycleHoursUsed,
+            stops: trip.stops,
+            route: trip.route,
             driver: getLocalUser()?.user_id ,
           }),
         });
@@ -228,6 +546,9 @@ export function TripProvider({ children }: { children: ReactNode }) {
             status: 'in-progress',
             distance: trip.distance || 0,
             duration: trip.duration || 0,
+            borderCrossings: trip.borderCrossings,
+            stops: Array.isArray(data.stops) ? data.stops : trip.stops,
+            route: data.route || trip.route,
           };
           setTrips(prev => [newTrip, ...prev]);
           return;
@@ -263,6 +584,8 @@ export function TripProvider({ children }: { children: ReactNode }) {
             status: 'planned',
             distance: 0,
             duration: 0,
+            stops: Array.isArray(t.stops) ? t.stops : undefined,
+            route: t.route || undefined,
           }));
           setTrips(mapped);
         }
@@ -273,24 +596,21 @@ export function TripProvider({ children }: { children: ReactNode }) {
     return () => { mounted = false };
   }, []);
 
-  // Fetch activities and populate today's completed activities and any open active activity
+  // Fetch activities and populate today's completed activities, any open active activity
+  // and the daily logs for earlier days
   useEffect(() => {
     let mounted = true;
 
-    const mapActivityTypeToStatus = (t: string | undefined) => {
-      switch (t) {
-        case 'ONDUTY':
-          return 'on-duty-not-driving';
-        case 'OFFDUTY':
-          return 'off-duty';
-        case 'DRIVING':
-          return 'driving';
-        case 'SLEEPER':
-          return 'sleeper-berth';
-        default:
-          return 'off-duty';
-      }
-    };
+    const mapLocation = (a: any) => ({
+      lat: typeof a.latitude === 'number' ? a.latitude : undefined,
+      lon: typeof a.longitude === 'number' ? a.longitude : undefined,
+      locationSource: a.location_source === 'manual' || a.location_source === 'gps' ? a.location_source : undefined,
+      recordOrigin: a.record_origin === 'auto' ? 'auto' as const : 'driver' as const,
+      specialCategory: isSpecialCategory(a.special_category) ? a.special_category : undefined,
+    });
+    // Breadcrumbs from the backend, or the ones recorded on this device
+    const mapTrack = (a: any): TrackPoint[] | undefined =>
+      Array.isArray(a.track) && a.track.length > 0 ? a.track : tracksRef.current[String(a.id)];
 
     (async () => {
       try {
@@ -302,6 +622,7 @@ export function TripProvider({ children }: { children: ReactNode }) {
 
         const todayStr = new Date().toISOString().slice(0, 10);
         const completed: CompletedActivity[] = [];
+        const pastEntries: Record<string, ELDEntry[]> = {};
 
         for (const a of data) {
           const start: string | null = a.start_time || null;
@@ -315,7 +636,8 @@ export function TripProvider({ children }: { children: ReactNode }) {
               id: String(a.id),
               status: mapActivityTypeToStatus(a.activity_type) as ActiveActivity['status'],
               startTime: start || new Date().toISOString(),
-              location: a.location || 'Current Location',
+              location: a.location || '',
+              ...mapLocation(a),
               notes: a.notes,
             };
             setActiveActivity(active);
@@ -334,19 +656,60 @@ export function TripProvider({ children }: { children: ReactNode }) {
               startTime: s ? s.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }) : '',
               endTime: e ? e.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }) : '',
               location: a.location || '',
+              ...mapLocation(a),
               duration,
               odometer: 145350 + Math.floor(Math.random() * 100),
               engineHours: 8522.5 + duration,
               notes: a.notes,
+              track: mapTrack(a),
             };
 
             completed.push(completedActivity);
+            continue;
+          }
+
+          // Earlier completed activities feed the daily logs the cycle is derived from
+          if (start && end) {
+            const s = new Date(start);
+            const e = new Date(end);
+            const duration = (e.getTime() - s.getTime()) / (1000 * 60 * 60);
+            const dateKey = toDateKey(s);
+            const entry: ELDEntry = {
+              id: String(a.id),
+              status: mapActivityTypeToStatus(a.activity_type) as ELDEntry['status'],
+              startTime: s.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+              endTime: e.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+              location: a.location || '',
+              ...mapLocation(a),
+              duration,
+              odometer: 145350,
+              engineHours: 8522.5,
+              notes: a.notes,
+              track: mapTrack(a),
+            };
+            pastEntries[dateKey] = [...(pastEntries[dateKey] || []), entry];
           }
         }
 
         if (completed.length > 0) {
           setTodayActivities(completed);
         }
+
+        const fetchedLogs: ELDLog[] = withEditedLogs(
+          Object.keys(pastEntries).map((date) => ({
+            id: `log-${date}`,
+            date,
+            driverId: String(getLocalUser()?.user_id ?? ''),
+            logs: pastEntries[date].sort((x, y) => x.startTime.localeCompare(y.startTime)),
+          })),
+          loadEditedLogs(),
+        );
+        if (fetchedLogs.length > 0) {
+          setEldLogs((prev) => [
+            ...fetchedLogs,
+            ...prev.filter((log) => !fetchedLogs.some((f) => f.date === log.date)),
+          ].sort((x, y) => y.date.localeCompare(x.date)));
+        }
       } catch (e) {
         // ignore and keep mock data
       }
@@ -355,34 +718,351 @@ export function TripProvider({ children }: { children: ReactNode }) {
     return () => { mounted = false };
   }, []);
 
+  useEffect(() => {
+    saveEditedLogs(eldLogs);
+  }, [eldLogs]);
+
   const getELDLogByDate = (date: string): ELDLog | undefined => {
     return eldLogs.find(log => log.date === date);
   };
 
-  const startActivity = (status: ActiveActivity['status'], notes?: string) => {
+  // Duty history across the stored logs, today's completed activities and the running one
+  const getDutyHistory = (now: Date = new Date()): DutyPeriod[] => {
+    const today = toDateKey(now);
+    return [
+      ...periodsFromLogs(eldLogs),
+      ...todayActivities.map((a) => entryToPeriod(today, a)),
+      ...(activeActivity ? [periodFromActivity(activeActivity, now.getTime())] : []),
+    ];
+  };
+
+  const getHosStatus = (now: Date = new Date()): HosStatus => {
+    return evaluateHos(getDutyHistory(now), now, getRuleSet(user?.ruleSetId), { switches: ruleSwitches, exceptions: hosExceptions });
+  };
+
+  const saveHosExceptions = (next: HosException[]) => {
+    setHosExceptions(next);
+    localStorage.setItem('tl_hos_exceptions', JSON.stringify(next));
+  };
+
+  const claimException = (type: Exclude<HosExceptionType, 'short-haul-exempt'>, annotation: string) => {
+    saveHosExceptions([
+      ...hosExceptions,
+      { id: `exc-${Date.now()}`, type, claimedAt: Date.now(), annotation: annotation.trim() },
+    ]);
+  };
+
+  // Exempt mode stays open until the driver switches back to regular logging
+  const setExemptMode = (enabled: boolean, annotation = '') => {
+    const open = hosExceptions.find((e) => e.type === 'short-haul-exempt' && e.endedAt === undefined);
+    if (enabled === !!open) return;
+    if (open) {
+      saveHosExceptions(hosExceptions.map((e) => (e === open ? { ...e, endedAt: Date.now() } : e)));
+    } else {
+      saveHosExceptions([
+        ...hosExceptions,
+        { id: `exc-${Date.now()}`, type: 'short-haul-exempt', claimedAt: Date.now(), annotation: annotation.trim() },
+      ]);
+    }
+  };
+
+  // Record a border crossing once enough consecutive positions lie in a different jurisdiction;
+  // the switch is dated to the first of them
+  const reportPosition = (lat: number, lon: number, location?: string) => {
+    const homeRules = getRuleSet(user?.ruleSetId);
+    const jurisdiction = jurisdictionAt(lat, lon);
+    const prev = ruleSwitchesRef.current;
+    const current = prev.length > 0 ? prev[prev.length - 1].jurisdiction : homeRules.jurisdiction;
+    if (jurisdiction === current) {
+      pendingCrossing.current = null;
+      return;
+    }
+
+    const pending = pendingCrossing.current?.jurisdiction === jurisdiction
+      ? { ...pendingCrossing.current, fixes: pendingCrossing.current.fixes + 1 }
+      : { jurisdiction, at: Date.now(), location, fixes: 1 };
+    if (pending.fixes < BORDER_CONFIRM_FIXES) {
+      pendingCrossing.current = pending;
+      return;
+    }
+    pendingCrossing.current = null;
+
+    const next = [...prev, { at: pending.at, jurisdiction, location: pending.location }];
+    ruleSwitchesRef.current = next;
+    setRuleSwitches(next);
+    localStorage.setItem('tl_rule_switches', JSON.stringify(next));
+    const rules = ruleSetForJurisdiction(homeRules, jurisdiction);
+    toast.info(`Entered ${jurisdiction === 'CA' ? 'Canada' : 'the United States'} — now using ${rules.name}`);
+  };
+
+  const getTrack = (activityId: string): TrackPoint[] => tracks[activityId] || [];
+
+  // Breadcrumbs are stored by record id, so carry them over to an edited version
+  const withTrack = (log: ELDLog, entryId: string): ELDLog => ({
+    ...log,
+    logs: log.logs.map((e) => (e.id === entryId && !e.track && tracksRef.current[e.id] ? { ...e, track: tracksRef.current[e.id] } : e)),
+  });
+
+  // Edit a recorded entry; the original stays in the log as an inactive record
+  const editEntry = (date: string, entryId: string, changes: EntryChanges, annotation: string) => {
+    const log = eldLogs.find((l) => l.date === date);
+    if (!log) return;
+    const edited = applyEdit(withTrack(log, entryId), entryId, changes, annotation, new Date());
+    if (!edited) return;
+    setEldLogs((prev) => prev.map((l) => (l.date === date ? edited : l)));
+
+    // Repeated edits are all reported against the backend's record
+    const recordId = originalRecordId(log, entryId);
+    // Activities that only exist locally have nothing to edit on the backend
+    if (recordId.startsWith('activity-') || recordId.startsWith('unidentified-')) return;
+    (async () => {
+      try {
+        await fetchWithAuth(`/api/activity/${recordId}/edit/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            activity_type: changes.status && mapStatusToActivityType(changes.status),
+            start_time: changes.startTime,
+            end_time: changes.endTime,
+            location: changes.location,
+            notes: changes.notes,
+            annotation: annotation.trim(),
+          }),
+        });
+      } catch (e) {
+        // the edit is kept locally
+      }
+    })();
+  };
+
+  // Record a certify event for a day's log
+  const certifyLog = (date: string, method: SignatureMethod, signature: string) => {
+    if (!user) return;
+    const certification: Certification = {
+      id: `cert-${Date.now()}`,
+      date,
+      certifiedAt: new Date().toISOString(),
+      method,
+      signature,
+      driverId: user.id,
+      driverName: user.name,
+    };
+    const next = [...certifications, certification];
+    setCertifications(next);
+    saveCertifications(next);
+
+    (async () => {
+      try {
+        await fetchWithAuth('/api/certifications/', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            driver: getLocalUser()?.user_id,
+            log_date: date,
+            certified_at: certification.certifiedAt,
+            method,
+            signature,
+          }),
+        });
+      } catch (e) {
+        // the certification is kept locally
+      }
+    })();
+  };
+
+  const saveProposals = (next: ProposedEdit[]) => {
+    setProposedEdits(next);
+    saveProposedEdits(next);
+  };
+
+  // Fetch the carrier's proposals; decisions made while offline are kept over the fetched status
+  useEffect(() => {
+    if (!user) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetchWithAuth('/api/proposed-edits/');
+        if (!mounted || !res.ok) return;
+        const data = await res.json();
+        if (!Array.isArray(data)) return;
+        const local = loadProposedEdits();
+        saveProposals(
+          data.map(mapProposedEdit).map((p) => local.find((l) => l.id === p.id && l.status !== 'pending') ?? p),
+        );
+      } catch (e) {
+        // keep the stored proposals
+      }
+    })();
+    return () => { mounted = false };
+  }, [user?.id]);
+
+  const decideProposedEdit = (proposal: ProposedEdit, status: 'accepted' | 'rejected', decidedAt: Date, reason?: string) => {
+    saveProposals(
+      proposedEdits.map((p) =>
+        p.id === proposal.id
+          ? { ...p, status, decidedAt: decidedAt.toISOString(), rejectionReason: reason?.trim() || undefined }
+          : p,
+      ),
+    );
+    (async () => {
+      try {
+        await fetchWithAuth(`/api/proposed-edits/${proposal.id}/${status === 'accepted' ? 'accept' : 'reject'}/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason: reason?.trim() || undefined }),
+        });
+      } catch (e) {
+        // the decision is kept locally
+      }
+    })();
+  };
+
+  // An accepted proposal becomes an edit of the entry, or a new record, with the carrier's annotation;
+  // records it overlaps are trimmed to make room
+  const acceptProposedEdit = (id: string) => {
+    const proposal = proposedEdits.find((p) => p.id === id && p.status === 'pending');
+    const log = proposal && proposalLog(eldLogs, proposal);
+    if (!proposal || !log) return;
     const now = new Date();
+    const edited = applyProposal(proposal.entryId ? withTrack(log, proposal.entryId) : log, proposal, now);
+    if (!edited) return;
+    setEldLogs((prev) => prev.map((l) => (l.date === log.date ? edited : l)));
+    decideProposedEdit(proposal, 'accepted', now);
+  };
+
+  const rejectProposedEdit = (id: string, reason?: string) => {
+    const proposal = proposedEdits.find((p) => p.id === id && p.status === 'pending');
+    if (!proposal) return;
+    const now = new Date();
+    const log = proposalLog(eldLogs, proposal);
+    if (log) setEldLogs((prev) => prev.map((l) => (l.date === log.date ? recordRejectedEdit(log, proposal, now) : l)));
+    decideProposedEdit(proposal, 'rejected', now, reason);
+  };
 
-    const mapStatusToActivityType = (s: ActiveActivity['status']) => {
-      switch (s) {
-        case 'on-duty-not-driving':
-          return 'ONDUTY';
-        case 'off-duty':
-          return 'OFFDUTY';
-        case 'driving':
-          return 'DRIVING';
-        case 'sleeper-berth':
-          return 'SLEEPER';
-        default:
-          return 'OFFDUTY';
+  // Send pending breadcrumbs for an activity; points stay queued when the backend is unreachable
+  const syncTrack = (activityId: string) => {
+    const pending = unsyncedTrack.current[activityId] || [];
+    // Activities that only exist locally have nothing to attach the track to
+    if (pending.length === 0 || activityId.startsWith('activity-')) return;
+    unsyncedTrack.current[activityId] = [];
+    (async () => {
+      try {
+        const res = await fetchWithAuth(`/api/activity/${activityId}/track/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ points: pending }),
+        });
+        if (res.ok) return;
+      } catch (e) {
+        // keep the points for the next attempt
       }
+      unsyncedTrack.current[activityId] = [...pending, ...(unsyncedTrack.current[activityId] || [])];
+    })();
+  };
+
+  const recordTrackPoint = (activityId: string, point: TrackPoint) => {
+    const current = tracksRef.current[activityId] || [];
+    if (!shouldRecord(current[current.length - 1], point)) return;
+    const next = saveTracks({ ...tracksRef.current, [activityId]: [...current, point] });
+    tracksRef.current = next;
+    setTracks(next);
+    unsyncedTrack.current[activityId] = [...(unsyncedTrack.current[activityId] || []), point];
+    if (unsyncedTrack.current[activityId].length >= TRACK_SYNC_BATCH) syncTrack(activityId);
+  };
+
+  const handlePosition = (pos: GeolocationPosition) => {
+    if (!activeActivity) return;
+    reportPosition(pos.coords.latitude, pos.coords.longitude);
+    recordTrackPoint(activeActivity.id, toTrackPoint(pos));
+  };
+  positionRef.current = handlePosition;
+
+  // Follow the vehicle while driving so border crossings switch the rule set and the path is recorded
+  useEffect(() => {
+    if (!activeActivity || activeActivity.status !== 'driving' || !('geolocation' in navigator)) return;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => positionRef.current(pos),
+      () => {
+        // position unavailable; keep the last known jurisdiction
+      },
+      { enableHighAccuracy: true, maximumAge: 15000 },
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [activeActivity?.status, activeActivity?.id]);
+
+  const setAlertThresholds = (minutes: number[]) => {
+    const sorted = [...minutes].sort((a, b) => b - a);
+    localStorage.setItem('tl_hos_alerts', JSON.stringify(sorted));
+    setAlertThresholdsState(sorted);
+  };
+
+  // Warn ahead of each HOS limit while driving; lives here so alerts fire on every screen
+  useEffect(() => {
+    if (activeActivity?.status !== 'driving' || alertThresholds.length === 0) {
+      lastRemaining.current = {};
+      return;
+    }
+
+    const check = () => {
+      const hos = getHosStatus();
+      const clocks = [
+        { key: 'driving', label: `${hos.driving.limit}-hour driving limit`, remaining: hos.driving.remaining },
+        { key: 'window', label: `${hos.window.limit}-hour duty window`, remaining: hos.window.remaining },
+        ...(hos.onDuty ? [{ key: 'onDuty', label: `${hos.onDuty.limit}-hour on-duty limit`, remaining: hos.onDuty.remaining }] : []),
+        ...(hos.break ? [{ key: 'break', label: 'required 30-minute break', remaining: hos.break.remaining }] : []),
+        { key: 'cycle', label: `${hos.cycle.limit}-hour cycle limit`, remaining: hos.cycle.remaining },
+      ];
+
+      clocks.forEach(({ key, label, remaining }) => {
+        const minutes = remaining * 60;
+        const previous = lastRemaining.current[key] ?? Infinity;
+        lastRemaining.current[key] = minutes;
+        // Only the tightest threshold crossed since the last check is announced
+        const crossed = alertThresholds.filter((t) => minutes <= t && previous > t);
+        if (crossed.length === 0) return;
+        const threshold = Math.min(...crossed);
+        const message = minutes <= 0
+          ? `You have reached the ${label}`
+          : `${Math.ceil(minutes)} minutes until the ${label}`;
+        if (threshold <= 15) {
+          toast.error(message);
+        } else {
+          toast.warning(message);
+        }
+        showNotification('Hours of Service', message);
+      });
     };
 
+    check();
+    const interval = setInterval(check, 15000);
+    return () => clearInterval(interval);
+  }, [activeActivity, alertThresholds, eldLogs, todayActivities, user?.ruleSetId, ruleSwitches, hosExceptions]);
+
+  const startActivity = (
+    status: ActiveActivity['status'],
+    notes?: string,
+    location?: CapturedLocation,
+    origin: RecordOrigin = 'driver',
+    specialCategory?: SpecialCategory,
+  ) => {
+    const now = new Date();
+    if (specialCategory === 'personal-conveyance' && location) location = reducePrecision(location);
+
+    if (status === 'driving') {
+      requestNotificationPermission();
+    }
+
     const newActivityLocal: ActiveActivity = {
       id: `activity-${Date.now()}`,
       status,
       startTime: now.toISOString(),
-      location: 'Current Location', // Could be enhanced with geolocation
+      location: location?.location || '',
+      lat: location?.lat,
+      lon: location?.lon,
+      locationSource: location?.source,
       notes,
+      recordOrigin: origin,
+      specialCategory,
     };
 
     // Attempt to create activity on backend; fall back to local mock on failure
@@ -394,6 +1074,11 @@ export function TripProvider({ children }: { children: ReactNode }) {
           start_time: now.toISOString(),
           end_time: now.toISOString(),
           location: newActivityLocal.location,
+          latitude: newActivityLocal.lat,
+          longitude: newActivityLocal.lon,
+          location_source: newActivityLocal.locationSource,
+          record_origin: origin,
+          special_category: specialCategory,
         };
 
         const res = await fetchWithAuth('/api/activity/', {
@@ -409,7 +1094,12 @@ export function TripProvider({ children }: { children: ReactNode }) {
             status,
             startTime: data.start_time || newActivityLocal.startTime,
             location: data.location || newActivityLocal.location,
+            lat: newActivityLocal.lat,
+            lon: newActivityLocal.lon,
+            locationSource: newActivityLocal.locationSource,
             notes,
+            recordOrigin: origin,
+            specialCategory,
           };
           setActiveActivity(created);
           return;
@@ -435,11 +1125,18 @@ export function TripProvider({ children }: { children: ReactNode }) {
       startTime: start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
       endTime: now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
       location: activeActivity.location,
+      lat: activeActivity.lat,
+      lon: activeActivity.lon,
+      locationSource: activeActivity.locationSource,
       duration: durationHours,
       odometer: 145350 + Math.floor(Math.random() * 100), // Mock odometer
       engineHours: 8522.5 + durationHours, // Mock engine hours
       notes: activeActivity.notes,
+      track: tracksRef.current[activeActivity.id],
+      recordOrigin: activeActivity.recordOrigin,
+      specialCategory: activeActivity.specialCategory,
     };
+    syncTrack(activeActivity.id);
 
     const tryUpdateBackend = async () => {
       // If id looks like a backend id (numeric), try PATCHing the activity
@@ -465,13 +1162,293 @@ export function TripProvider({ children }: { children: ReactNode }) {
     (async () => {
       const updated = await tryUpdateBackend();
       // in either case, push to local today's activities and clear active
-      setTodayActivities([completedActivityLocal, ...todayActivities]);
-      setActiveActivity(null);
+      // (functional updates so a status started meanwhile is kept)
+      setTodayActivities((prev) => [completedActivityLocal, ...prev]);
+      setActiveActivity((prev) => (prev?.id === completedActivityLocal.id ? null : prev));
     })();
 
     return completedActivityLocal;
   };
 
+  // End the running status, if any, and start the next one
+  const switchStatus = async (status: ActiveActivity['status'], origin: RecordOrigin, sample: MotionSample | null) => {
+    pendingStatus.current = status;
+    const location: CapturedLocation | null =
+      sample?.lat !== undefined && sample.lon !== undefined
+        ? {
+            location: (await getGeoProvider().reverseGeocode(sample.lat, sample.lon)) || `${sample.lat.toFixed(4)}, ${sample.lon.toFixed(4)}`,
+            lat: sample.lat,
+            lon: sample.lon,
+            source: 'gps',
+          }
+        : await captureLocation();
+    switchRef.current(status, origin, location);
+  };
+
+  const applySwitch = (status: ActiveActivity['status'], origin: RecordOrigin, location: CapturedLocation | null) => {
+    if (activeActivity?.status === status) {
+      pendingStatus.current = null;
+      return;
+    }
+    if (activeActivity) stopActivity();
+    startActivity(status, undefined, location || undefined, origin);
+  };
+  switchRef.current = applySwitch;
+
+  // Switch to driving once the vehicle moves; while driving, watch for it to stop
+  const handleMotion = (sample: MotionSample) => {
+    lastSample.current = sample;
+    // Personal conveyance and yard moves are movement the driver has already declared
+    if (pendingStatus.current || activeActivity?.specialCategory) return;
+    const moving = sample.speed > DRIVING_SPEED_MPH;
+
+    if (activeActivity?.status !== 'driving') {
+      if (!moving) return;
+      toast.info('Vehicle is moving — duty status switched to Driving');
+      switchStatus('driving', 'auto', sample);
+      return;
+    }
+
+    if (moving) {
+      stationarySince.current = null;
+      setDrivingPrompt(null);
+    } else if (stationarySince.current === null) {
+      stationarySince.current = sample.at;
+    }
+  };
+  motionRef.current = handleMotion;
+
+  useEffect(() => {
+    if (!user) return;
+    const source = getMotionSource();
+    if (!source) return;
+    return source.subscribe((sample) => motionRef.current(sample));
+  }, [user?.id]);
+
+  // The pending switch is done once the new status is running
+  useEffect(() => {
+    if (activeActivity?.status === pendingStatus.current) pendingStatus.current = null;
+    if (activeActivity?.status !== 'driving') {
+      stationarySince.current = null;
+      setDrivingPrompt(null);
+    }
+  }, [activeActivity?.id, activeActivity?.status]);
+
+  // Samples may stop arriving while parked, so check the stationary time on a timer too
+  useEffect(() => {
+    if (activeActivity?.status !== 'driving') return;
+    const interval = setInterval(() => {
+      const since = stationarySince.current;
+      if (since === null || Date.now() - since < STATIONARY_PROMPT_MS) return;
+      setDrivingPrompt((prev) => prev || { stoppedAt: since, deadline: Date.now() + PROMPT_TIMEOUT_MS });
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [activeActivity?.status]);
+
+  // Unanswered prompt: the ELD switches the driver to on duty on its own
+  useEffect(() => {
+    if (!drivingPrompt) return;
+    const timeout = setTimeout(() => {
+      setDrivingPrompt(null);
+      stationarySince.current = null;
+      toast.info('No response — duty status switched to On Duty');
+      switchStatus('on-duty-not-driving', 'auto', lastSample.current);
+    }, Math.max(0, drivingPrompt.deadline - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [drivingPrompt]);
+
+  const answerDrivingPrompt = (status: ActiveActivity['status']) => {
+    setDrivingPrompt(null);
+    stationarySince.current = null;
+    if (status === 'driving') return;
+    switchStatus(status, 'driver', lastSample.current);
+  };
+
+  const updateUnidentified = (update: (record: UnidentifiedRecord) => UnidentifiedRecord) => {
+    const next = update(unidentifiedRef.current);
+    unidentifiedRef.current = next;
+    setUnidentified(next);
+    saveUnidentified(next);
+  };
+
+  // Finish the event being recorded: drop it when the truck barely moved, otherwise name its end points
+  const closeUnidentified = () => {
+    const id = openUnidentified.current;
+    openUnidentified.current = null;
+    const event = unidentifiedRef.current.events.find((e) => e.id === id);
+    if (!event) return;
+    // Without GPS points (telemetry only) the distance is unknown, so the event is kept
+    if (event.track.length > 1 && unidentifiedMiles(event) < UNIDENTIFIED_MIN_MILES) {
+      updateUnidentified((r) => ({ ...r, events: r.events.filter((e) => e.id !== id) }));
+      return;
+    }
+    const first = event.track[0];
+    const last = event.track[event.track.length - 1];
+    if (!first) return;
+    (async () => {
+      const provider = getGeoProvider();
+      const [startLocation, endLocation] = await Promise.all([
+        provider.reverseGeocode(first.lat, first.lon),
+        provider.reverseGeocode(last.lat, last.lon),
+      ]);
+      updateUnidentified((r) => ({
+        ...r,
+        events: r.events.map((e) =>
+          e.id === id ? { ...e, startLocation: startLocation || undefined, endLocation: endLocation || undefined } : e,
+        ),
+      }));
+    })();
+  };
+
+  // With no driver logged in, movement is recorded against the vehicle as unidentified driving
+  const recordUnidentified = (sample: MotionSample) => {
+    const open = unidentifiedRef.current.events.find((e) => e.id === openUnidentified.current);
+    if (sample.speed <= DRIVING_SPEED_MPH) {
+      if (open && sample.at - open.end >= STATIONARY_PROMPT_MS) closeUnidentified();
+      return;
+    }
+
+    const point: TrackPoint | null =
+      sample.lat !== undefined && sample.lon !== undefined
+        ? { lat: sample.lat, lon: sample.lon, at: sample.at, speed: sample.speed }
+        : null;
+    if (!open) {
+      const event: UnidentifiedEvent = {
+        id: `unidentified-${sample.at}`,
+        vehicle: loadTruck().unitNumber,
+        start: sample.at,
+        end: sample.at,
+        track: point ? [point] : [],
+        status: 'unassigned',
+      };
+      openUnidentified.current = event.id;
+      updateUnidentified((r) => ({ ...r, events: [...r.events, event] }));
+      return;
+    }
+    const track = point && shouldRecord(open.track[open.track.length - 1], point) ? [...open.track, point] : open.track;
+    updateUnidentified((r) => ({
+      ...r,
+      events: r.events.map((e) => (e.id === open.id ? { ...e, end: sample.at, track } : e)),
+    }));
+  };
+  unidentifiedMotionRef.current = recordUnidentified;
+
+  useEffect(() => {
+    if (user) return;
+    const source = getMotionSource();
+    if (!source) return;
+    const unsubscribe = source.subscribe((sample) => unidentifiedMotionRef.current(sample));
+    // Logging in ends the unidentified event; from then on the movement is the driver's
+    return () => {
+      unsubscribe();
+      closeUnidentified();
+    };
+  }, [user?.id]);
+
+  // Record the decision on the vehicle's record and report it; the local audit is kept either way
+  const decideUnidentified = (event: UnidentifiedEvent, action: UnidentifiedAuditEntry['action'], note?: string) => {
+    if (!user) return;
+    const audit: UnidentifiedAuditEntry = {
+      id: `audit-${Date.now()}`,
+      eventId: event.id,
+      action,
+      driverId: user.id,
+      driverName: user.name,
+      at: Date.now(),
+      note: note?.trim() || undefined,
+    };
+    updateUnidentified((r) => ({
+      events: r.events.map((e) => (e.id === event.id ? { ...e, status: action } : e)),
+      audit: [...r.audit, audit],
+    }));
+
+    (async () => {
+      try {
+        await fetchWithAuth(`/api/unidentified/${action === 'claimed' ? 'claim' : 'reject'}/`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            driver: getLocalUser()?.user_id,
+            vehicle: event.vehicle,
+            start_time: new Date(event.start).toISOString(),
+            end_time: new Date(event.end).toISOString(),
+            start_location: event.startLocation,
+            end_location: event.endLocation,
+            track: event.track,
+            note: audit.note,
+          }),
+        });
+      } catch (e) {
+        // the decision stays on the local record
+      }
+    })();
+  };
+
+  // A claimed event becomes a driving entry in the log for the day it started; the records it overlaps
+  // are trimmed around it, keeping the originals as inactive records
+  const claimUnidentified = (eventId: string) => {
+    const event = unidentified.events.find((e) => e.id === eventId && e.status === 'unassigned');
+    if (!event) return;
+    const start = new Date(event.start);
+    const date = toDateKey(start);
+    const first = event.track[0];
+    const entry: ELDEntry = {
+      id: event.id,
+      status: 'driving',
+      startTime: start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+      endTime: new Date(event.end).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+      location: event.startLocation || '',
+      lat: first?.lat,
+      lon: first?.lon,
+      locationSource: first ? 'gps' : undefined,
+      duration: unidentifiedHours(event),
+      odometer: 145350,
+      engineHours: 8522.5,
+      notes: `Claimed unidentified driving${event.endLocation ? ` to ${event.endLocation}` : ''}`,
+      track: event.track,
+      recordOrigin: 'auto',
+    };
+    const now = new Date();
+    const changedAt = now.toISOString();
+    const claimed = entryToPeriod(date, entry);
+    const annotation = 'Adjusted for claimed unidentified driving';
+
+    // Today's records are still activities rather than a log; they are trimmed the same way and their
+    // originals kept inactive in today's log
+    const today = toDateKey(now);
+    const todayCleared = clearPeriod(
+      { id: `log-${today}`, date: today, driverId: user?.id ?? '', logs: todayActivities },
+      claimed.start,
+      claimed.end,
+      annotation,
+      now,
+    );
+    if (todayCleared.logs !== todayActivities) setTodayActivities(todayCleared.logs);
+
+    const addTo = (logs: ELDLog[], day: string, added: ELDEntry[], inactive: ELDEntry[]): ELDLog[] => {
+      const existing = logs.find((log) => log.date === day);
+      const merged: ELDLog = {
+        ...(existing ?? { id: `log-${day}`, date: day, driverId: user?.id ?? '', logs: [] }),
+        logs: [...(existing?.logs || []), ...added].sort((x, y) => x.startTime.localeCompare(y.startTime)),
+        inactiveLogs: [...(existing?.inactiveLogs || []), ...inactive],
+        changedAt,
+      };
+      return [merged, ...logs.filter((log) => log.date !== day)].sort((x, y) => y.date.localeCompare(x.date));
+    };
+    setEldLogs((prev) => {
+      const cleared = prev.map((log) => clearPeriod(log, claimed.start, claimed.end, annotation, now));
+      const withClaim = addTo(cleared, date, [entry], []);
+      return todayCleared.inactiveLogs ? addTo(withClaim, today, [], todayCleared.inactiveLogs) : withClaim;
+    });
+    decideUnidentified(event, 'claimed');
+  };
+
+  const rejectUnidentified = (eventId: string, note?: string) => {
+    const event = unidentified.events.find((e) => e.id === eventId && e.status === 'unassigned');
+    if (!event) return;
+    decideUnidentified(event, 'rejected', note);
+  };
+
   return (
     <TripContext.Provider value={{ 
       trips, 
@@ -480,8 +1457,31 @@ export function TripProvider({ children }: { children: ReactNode }) {
       todayActivities, 
       addTrip, 
       getELDLogByDate,
+      getDutyHistory,
+      getHosStatus,
+      alertThresholds,
+      setAlertThresholds,
+      ruleSwitches,
+      reportPosition,
+      tracks,
+      getTrack,
+      hosExceptions,
+      claimException,
+      setExemptMode,
       startActivity,
-      stopActivity
+      stopActivity,
+      drivingPrompt,
+      answerDrivingPrompt,
+      unidentifiedEvents: unidentified.events,
+      unidentifiedAudit: unidentified.audit,
+      claimUnidentified,
+      rejectUnidentified,
+      editEntry,
+      proposedEdits,
+      acceptProposedEdit,
+      rejectProposedEdit,
+      certifications,
+      certifyLog,
     }}>
       {children}
     </TripContext.Provider>
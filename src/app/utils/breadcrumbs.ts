@@ -0,0 +1,61 @@
+import { haversineMiles } from './geo';
+
+// GPS breadcrumbs recorded while driving, so the path actually driven can be drawn afterwards
+
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  at: number; // epoch ms
+  speed?: number; // mph, when the device reports it
+  accuracy?: number; // meters
+}
+
+export type TrackStore = Record<string, TrackPoint[]>; // activity id -> breadcrumbs in time order
+
+export const TRACK_INTERVAL_MS = 30 * 1000;
+export const TRACK_MIN_MILES = 0.05;
+export const TRACK_SYNC_BATCH = 10; // points sent to the backend at a time
+const TRACK_RETENTION_DAYS = 14;
+const MPS_TO_MPH = 2.236936;
+
+export const toTrackPoint = (pos: GeolocationPosition): TrackPoint => ({
+  lat: pos.coords.latitude,
+  lon: pos.coords.longitude,
+  at: pos.timestamp || Date.now(),
+  speed: pos.coords.speed !== null && pos.coords.speed >= 0 ? pos.coords.speed * MPS_TO_MPH : undefined,
+  accuracy: pos.coords.accuracy,
+});
+
+// Keep a point once enough time has passed or the truck has moved far enough since the last one
+export function shouldRecord(last: TrackPoint | undefined, next: TrackPoint): boolean {
+  if (!last) return true;
+  return next.at - last.at >= TRACK_INTERVAL_MS || haversineMiles(last.lat, last.lon, next.lat, next.lon) >= TRACK_MIN_MILES;
+}
+
+export const loadTracks = (): TrackStore => {
+  const raw = localStorage.getItem('tl_tracks');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Drop tracks older than the retention window before writing, so local storage does not grow unbounded
+export const saveTracks = (tracks: TrackStore): TrackStore => {
+  const cutoff = Date.now() - TRACK_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = Object.fromEntries(
+    Object.entries(tracks).filter(([, points]) => points.length > 0 && points[points.length - 1].at >= cutoff),
+  );
+  try {
+    localStorage.setItem('tl_tracks', JSON.stringify(kept));
+  } catch {
+    // storage full; the in-memory track is still used for this session
+  }
+  return kept;
+};
+
+// Length of a track in miles
+export const trackMiles = (points: TrackPoint[]): number =>
+  points.slice(1).reduce((sum, p, i) => sum + haversineMiles(points[i].lat, points[i].lon, p.lat, p.lon), 0);
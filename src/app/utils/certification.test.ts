@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ELDLog } from '../contexts/TripContext';
+import { certificationStatus, loadCertifications, saveCertifications, Certification } from './certification';
+import { applyEdit, loadEditedLogs, saveEditedLogs, withEditedLogs } from './logEdits';
+
+const log: ELDLog = {
+  id: 'log-1',
+  date: '2026-02-02',
+  driverId: '1',
+  logs: [
+    {
+      id: 'a',
+      status: 'on-duty-not-driving',
+      startTime: '08:00',
+      endTime: '09:00',
+      location: 'Buffalo, NY',
+      duration: 1,
+      odometer: 0,
+      engineHours: 0,
+    },
+  ],
+};
+
+const certification: Certification = {
+  id: 'cert-1',
+  date: '2026-02-02',
+  certifiedAt: '2026-02-03T08:00:00.000Z',
+  method: 'typed',
+  signature: 'Sam Driver',
+  driverId: '1',
+  driverName: 'Sam Driver',
+};
+
+describe('certificationStatus', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  it('covers a log that has not changed since it was certified', () => {
+    expect(certificationStatus(log, [certification])).toEqual({ current: certification, needsRecertification: false });
+  });
+
+  it('still requires recertification after a reload when the day was edited after certifying', () => {
+    saveCertifications([certification]);
+    saveEditedLogs([applyEdit(log, 'a', { endTime: '09:30' }, 'Inspection ran long', new Date('2026-02-03T10:00:00Z'))!]);
+
+    // A reload starts again from the records the backend returns
+    const [reloaded] = withEditedLogs([log], loadEditedLogs());
+    const status = certificationStatus(reloaded, loadCertifications());
+    expect(status.current).toBeNull();
+    expect(status.needsRecertification).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import type { ELDLog } from '../contexts/TripContext';
+
+// Daily log certification (49 CFR 395.30(b)). Each certification is kept as a certify event; a day
+// edited after its latest certification has to be certified again.
+
+export type SignatureMethod = 'drawn' | 'typed';
+
+export interface Certification {
+  id: string;
+  date: string; // log date (YYYY-MM-DD)
+  certifiedAt: string; // ISO timestamp of the certify event
+  method: SignatureMethod;
+  signature: string; // PNG data URL when drawn, the driver's typed name when typed
+  driverId: string;
+  driverName: string;
+}
+
+export interface CertificationStatus {
+  current: Certification | null; // latest certification still covering the log
+  needsRecertification: boolean; // certified, then edited
+}
+
+export const CERTIFICATION_STATEMENT =
+  'I hereby certify that my data entries and my record of duty status for this 24-hour period are true and correct.';
+
+export const loadCertifications = (): Certification[] => {
+  const raw = localStorage.getItem('tl_certifications');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCertifications = (certifications: Certification[]) => {
+  try {
+    localStorage.setItem('tl_certifications', JSON.stringify(certifications));
+  } catch {
+    // storage full; the certification is still sent to the backend
+  }
+};
+
+export function certificationStatus(log: ELDLog, certifications: Certification[]): CertificationStatus {
+  const latest = certifications
+    .filter((c) => c.date === log.date)
+    .sort((a, b) => b.certifiedAt.localeCompare(a.certifiedAt))[0];
+  if (!latest) return { current: null, needsRecertification: false };
+  const stale = !!log.changedAt && log.changedAt > latest.certifiedAt;
+  return { current: stale ? null : latest, needsRecertification: stale };
+}
@@ -0,0 +1,81 @@
+// Major US and Canadian freight cities, bundled for offline geocoding and routing
+
+export interface City {
+  name: string;
+  state: string; // state or province code
+  lat: number;
+  lon: number;
+}
+
+export const CITIES: City[] = [
+  { name: 'Los Angeles', state: 'CA', lat: 34.0522, lon: -118.2437 },
+  { name: 'San Francisco', state: 'CA', lat: 37.7749, lon: -122.4194 },
+  { name: 'San Diego', state: 'CA', lat: 32.7157, lon: -117.1611 },
+  { name: 'Sacramento', state: 'CA', lat: 38.5816, lon: -121.4944 },
+  { name: 'Oakland', state: 'CA', lat: 37.8044, lon: -122.2712 },
+  { name: 'Long Beach', state: 'CA', lat: 33.7701, lon: -118.1937 },
+  { name: 'Fresno', state: 'CA', lat: 36.7378, lon: -119.7871 },
+  { name: 'Stockton', state: 'CA', lat: 37.9577, lon: -121.2908 },
+  { name: 'Bakersfield', state: 'CA', lat: 35.3733, lon: -119.0187 },
+  { name: 'Phoenix', state: 'AZ', lat: 33.4484, lon: -112.074 },
+  { name: 'Tucson', state: 'AZ', lat: 32.2226, lon: -110.9747 },
+  { name: 'Las Vegas', state: 'NV', lat: 36.1699, lon: -115.1398 },
+  { name: 'Reno', state: 'NV', lat: 39.5296, lon: -119.8138 },
+  { name: 'Seattle', state: 'WA', lat: 47.6062, lon: -122.3321 },
+  { name: 'Spokane', state: 'WA', lat: 47.6588, lon: -117.426 },
+  { name: 'Portland', state: 'OR', lat: 45.5152, lon: -122.6784 },
+  { name: 'Boise', state: 'ID', lat: 43.615, lon: -116.2023 },
+  { name: 'Salt Lake City', state: 'UT', lat: 40.7608, lon: -111.891 },
+  { name: 'Denver', state: 'CO', lat: 39.7392, lon: -104.9903 },
+  { name: 'Albuquerque', state: 'NM', lat: 35.0844, lon: -106.6504 },
+  { name: 'El Paso', state: 'TX', lat: 31.7619, lon: -106.485 },
+  { name: 'Dallas', state: 'TX', lat: 32.7767, lon: -96.797 },
+  { name: 'Fort Worth', state: 'TX', lat: 32.7555, lon: -97.3308 },
+  { name: 'Houston', state: 'TX', lat: 29.7604, lon: -95.3698 },
+  { name: 'San Antonio', state: 'TX', lat: 29.4241, lon: -98.4936 },
+  { name: 'Laredo', state: 'TX', lat: 27.5306, lon: -99.4803 },
+  { name: 'Oklahoma City', state: 'OK', lat: 35.4676, lon: -97.5164 },
+  { name: 'Kansas City', state: 'MO', lat: 39.0997, lon: -94.5786 },
+  { name: 'St. Louis', state: 'MO', lat: 38.627, lon: -90.1994 },
+  { name: 'Omaha', state: 'NE', lat: 41.2565, lon: -95.9345 },
+  { name: 'Minneapolis', state: 'MN', lat: 44.9778, lon: -93.265 },
+  { name: 'Chicago', state: 'IL', lat: 41.8781, lon: -87.6298 },
+  { name: 'Milwaukee', state: 'WI', lat: 43.0389, lon: -87.9065 },
+  { name: 'Indianapolis', state: 'IN', lat: 39.7684, lon: -86.1581 },
+  { name: 'Detroit', state: 'MI', lat: 42.3314, lon: -83.0458 },
+  { name: 'Columbus', state: 'OH', lat: 39.9612, lon: -82.9988 },
+  { name: 'Cleveland', state: 'OH', lat: 41.4993, lon: -81.6944 },
+  { name: 'Louisville', state: 'KY', lat: 38.2527, lon: -85.7585 },
+  { name: 'Memphis', state: 'TN', lat: 35.1495, lon: -90.049 },
+  { name: 'Nashville', state: 'TN', lat: 36.1627, lon: -86.7816 },
+  { name: 'New Orleans', state: 'LA', lat: 29.9511, lon: -90.0715 },
+  { name: 'Birmingham', state: 'AL', lat: 33.5186, lon: -86.8104 },
+  { name: 'Atlanta', state: 'GA', lat: 33.749, lon: -84.388 },
+  { name: 'Savannah', state: 'GA', lat: 32.0809, lon: -81.0912 },
+  { name: 'Jacksonville', state: 'FL', lat: 30.3322, lon: -81.6557 },
+  { name: 'Orlando', state: 'FL', lat: 28.5383, lon: -81.3792 },
+  { name: 'Miami', state: 'FL', lat: 25.7617, lon: -80.1918 },
+  { name: 'Charlotte', state: 'NC', lat: 35.2271, lon: -80.8431 },
+  { name: 'Richmond', state: 'VA', lat: 37.5407, lon: -77.436 },
+  { name: 'Washington', state: 'DC', lat: 38.9072, lon: -77.0369 },
+  { name: 'Baltimore', state: 'MD', lat: 39.2904, lon: -76.6122 },
+  { name: 'Philadelphia', state: 'PA', lat: 39.9526, lon: -75.1652 },
+  { name: 'Pittsburgh', state: 'PA', lat: 40.4406, lon: -79.9959 },
+  { name: 'Newark', state: 'NJ', lat: 40.7357, lon: -74.1724 },
+  { name: 'New York', state: 'NY', lat: 40.7128, lon: -74.006 },
+  { name: 'Buffalo', state: 'NY', lat: 42.8864, lon: -78.8784 },
+  { name: 'Boston', state: 'MA', lat: 42.3601, lon: -71.0589 },
+  { name: 'Vancouver', state: 'BC', lat: 49.2827, lon: -123.1207 },
+  { name: 'Calgary', state: 'AB', lat: 51.0447, lon: -114.0719 },
+  { name: 'Edmonton', state: 'AB', lat: 53.5461, lon: -113.4938 },
+  { name: 'Regina', state: 'SK', lat: 50.4452, lon: -104.6189 },
+  { name: 'Winnipeg', state: 'MB', lat: 49.8951, lon: -97.1384 },
+  { name: 'Windsor', state: 'ON', lat: 42.3149, lon: -83.0364 },
+  { name: 'Toronto', state: 'ON', lat: 43.6532, lon: -79.3832 },
+  { name: 'Ottawa', state: 'ON', lat: 45.4215, lon: -75.6972 },
+  { name: 'Montreal', state: 'QC', lat: 45.5017, lon: -73.5673 },
+  { name: 'Quebec City', state: 'QC', lat: 46.8139, lon: -71.208 },
+  { name: 'Halifax', state: 'NS', lat: 44.6488, lon: -63.5752 },
+];
+
+export const cityLabel = (city: City) => `${city.name}, ${city.state}`;
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { jurisdictionAt, Jurisdiction } from './geo';
+
+// Towns on either side of the border crossings, [name, lat, lon, jurisdiction]
+const PLACES: Array<[string, number, number, Jurisdiction]> = [
+  ['Prince Rupert, BC', 54.3150, -130.3208, 'CA'],
+  ['Ketchikan, AK', 55.3422, -131.6461, 'US'],
+  ['Stewart, BC', 55.9389, -129.9894, 'CA'],
+  ['Hyder, AK', 55.9169, -130.0247, 'US'],
+  ['Juneau, AK', 58.3019, -134.4197, 'US'],
+  ['Skagway, AK', 59.4583, -135.3139, 'US'],
+  ['Whitehorse, YT', 60.7212, -135.0568, 'CA'],
+  ['Victoria, BC', 48.4284, -123.3656, 'CA'],
+  ['Port Angeles, WA', 48.1181, -123.4307, 'US'],
+  ['Surrey, BC', 49.1913, -122.8490, 'CA'],
+  ['Blaine, WA', 48.9937, -122.7471, 'US'],
+  ['Point Roberts, WA', 48.9854, -123.0777, 'US'],
+  ['Seattle, WA', 47.6062, -122.3321, 'US'],
+  ['Calgary, AB', 51.0447, -114.0719, 'CA'],
+  ['Winnipeg, MB', 49.8951, -97.1384, 'CA'],
+  ['Emerson, MB', 49.0062, -97.2106, 'CA'],
+  ['Pembina, ND', 48.9664, -97.2434, 'US'],
+  ['Fort Frances, ON', 48.6092, -93.4009, 'CA'],
+  ['International Falls, MN', 48.6011, -93.4105, 'US'],
+  ['Thunder Bay, ON', 48.3809, -89.2477, 'CA'],
+  ['Grand Portage, MN', 47.9636, -89.6848, 'US'],
+  ['Sault Ste. Marie, ON', 46.5219, -84.3461, 'CA'],
+  ['Sault Ste. Marie, MI', 46.4953, -84.3453, 'US'],
+  ['Sarnia, ON', 42.9745, -82.4066, 'CA'],
+  ['Port Huron, MI', 42.9709, -82.4249, 'US'],
+  ['Windsor, ON', 42.3149, -83.0364, 'CA'],
+  ['Detroit, MI', 42.3314, -83.0458, 'US'],
+  ['Fort Erie, ON', 42.9018, -78.9311, 'CA'],
+  ['Buffalo, NY', 42.8864, -78.8784, 'US'],
+  ['Niagara Falls, ON', 43.0896, -79.0849, 'CA'],
+  ['Niagara Falls, NY', 43.0945, -79.0567, 'US'],
+  ['Queenston, ON', 43.1606, -79.0556, 'CA'],
+  ['Lewiston, NY', 43.1725, -79.0356, 'US'],
+  ['Chicago, IL', 41.8781, -87.6298, 'US'],
+  ['Toronto, ON', 43.6532, -79.3832, 'CA'],
+  ['Rochester, NY', 43.1566, -77.6088, 'US'],
+  ['Kingston, ON', 44.2312, -76.4860, 'CA'],
+  ['Cape Vincent, NY', 44.1270, -76.3330, 'US'],
+  ['Prescott, ON', 44.7120, -75.5185, 'CA'],
+  ['Ogdensburg, NY', 44.6942, -75.4863, 'US'],
+  ['Cornwall, ON', 45.0213, -74.7303, 'CA'],
+  ['Massena, NY', 44.9281, -74.8919, 'US'],
+  ['Montreal, QC', 45.5019, -73.5674, 'CA'],
+  ['Lacolle, QC', 45.0834, -73.3670, 'CA'],
+  ['Champlain, NY', 44.9864, -73.4465, 'US'],
+  ['Coaticook, QC', 45.1340, -71.8030, 'CA'],
+  ['Newport, VT', 44.9364, -72.2051, 'US'],
+  ['Edmundston, NB', 47.3737, -68.3251, 'CA'],
+  ['Madawaska, ME', 47.3562, -68.3264, 'US'],
+  ['Woodstock, NB', 46.1520, -67.5980, 'CA'],
+  ['Houlton, ME', 46.1259, -67.8403, 'US'],
+  ['St. Stephen, NB', 45.1980, -67.2770, 'CA'],
+  ['Calais, ME', 45.1840, -67.2760, 'US'],
+  ['Halifax, NS', 44.6488, -63.5752, 'CA'],
+  ['Boston, MA', 42.3601, -71.0589, 'US'],
+];
+
+describe('jurisdictionAt', () => {
+  it.each(PLACES)('locates %s', (_name, lat, lon, jurisdiction) => {
+    expect(jurisdictionAt(lat, lon)).toBe(jurisdiction);
+  });
+});
@@ -0,0 +1,229 @@
+// Geographic helpers: great-circle distances and US/Canada jurisdiction lookup.
+
+export type Jurisdiction = 'US' | 'CA';
+
+export interface BorderCrossing {
+  lat: number;
+  lon: number;
+  distance: number; // miles from the start of the route
+  fraction: number; // share of the route covered when the border is reached (0..1)
+  jurisdiction: Jurisdiction; // jurisdiction entered
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export function haversineMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// The point a fraction t of the way from one point to another along the great circle through them,
+// as [lon, lat]
+export function greatCirclePoint(lat1: number, lon1: number, lat2: number, lon2: number, t: number): [number, number] {
+  const [rLat1, rLon1, rLat2, rLon2] = [lat1, lon1, lat2, lon2].map(toRad);
+  const angle = haversineMiles(lat1, lon1, lat2, lon2) / EARTH_RADIUS_MILES;
+  if (angle === 0) return [lon1, lat1];
+  const a = Math.sin((1 - t) * angle) / Math.sin(angle);
+  const b = Math.sin(t * angle) / Math.sin(angle);
+  const x = a * Math.cos(rLat1) * Math.cos(rLon1) + b * Math.cos(rLat2) * Math.cos(rLon2);
+  const y = a * Math.cos(rLat1) * Math.sin(rLon1) + b * Math.cos(rLat2) * Math.sin(rLon2);
+  const z = a * Math.sin(rLat1) + b * Math.sin(rLat2);
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  return [toDeg(Math.atan2(y, x)), toDeg(Math.atan2(z, Math.sqrt(x * x + y * y)))];
+}
+
+// Simplified outline of Canada as [lon, lat] pairs, following the US border from the Beaufort Sea
+// around the Alaska panhandle, along the 49th parallel, through the Great Lakes and down to the
+// Bay of Fundy. Accurate to a few miles in open country and traced along the river channel at the
+// busy crossings (Blaine, Sault Ste. Marie, Sarnia, Detroit, Niagara, the St. Lawrence, Madawaska,
+// Calais), where the two sides are only a bridge apart.
+const CANADA_OUTLINE: Array<[number, number]> = [
+  [-141.0, 84.0],
+  [-141.0, 60.3],
+  [-139.1, 60.0],
+  [-137.5, 58.9],
+  [-136.9, 59.2],
+  [-136.36, 59.45],
+  [-135.5, 59.8],
+  [-135.15, 59.62],
+  [-134.5, 59.2],
+  [-133.4, 58.4],
+  [-132.2, 57.5],
+  [-131.5, 56.6],
+  [-130.0, 56.0],
+  [-130.01, 55.9],
+  [-130.15, 55.7],
+  [-130.6, 54.7],
+  [-133.2, 54.66],
+  [-134.0, 54.2],
+  [-132.5, 52.0],
+  [-129.5, 50.5],
+  [-126.5, 48.8],
+  [-124.8, 48.5],
+  [-123.2, 48.3],
+  [-123.3, 49.0],
+  [-95.15, 49.0],
+  [-95.15, 49.38],
+  [-94.83, 49.32],
+  [-94.6, 48.715],
+  [-94.0, 48.66],
+  [-93.4, 48.605],
+  [-93.0, 48.62],
+  [-92.45, 48.27],
+  [-92.15, 48.35],
+  [-91.5, 48.05],
+  [-90.9, 48.22],
+  [-90.0, 48.1],
+  [-89.58, 48.0],
+  [-89.2, 48.05],
+  [-88.4, 48.3],
+  [-86.0, 47.5],
+  [-84.8, 46.9],
+  [-84.58, 46.52],
+  [-84.35, 46.505],
+  [-84.12, 46.51],
+  [-83.95, 46.05],
+  [-83.6, 46.1],
+  [-83.45, 45.98],
+  [-82.5, 45.3],
+  [-82.42, 43.0],
+  [-82.418, 42.97],
+  [-82.47, 42.75],
+  [-82.52, 42.6],
+  [-82.95, 42.335],
+  [-83.04, 42.322],
+  [-83.08, 42.305],
+  [-83.11, 42.27],
+  [-83.13, 42.1],
+  [-83.17, 42.03],
+  [-82.7, 41.68],
+  [-82.4, 41.68],
+  [-81.25, 42.2],
+  [-80.0, 42.45],
+  [-79.0, 42.8],
+  [-78.92, 42.88],
+  [-78.915, 42.905],
+  [-78.97, 42.95],
+  [-79.02, 43.06],
+  [-79.075, 43.077],
+  [-79.068, 43.09],
+  [-79.058, 43.11],
+  [-79.05, 43.13],
+  [-79.045, 43.153],
+  [-79.055, 43.2],
+  [-79.065, 43.265],
+  [-79.2, 43.45],
+  [-78.7, 43.63],
+  [-76.8, 43.63],
+  [-76.45, 44.06],
+  [-76.36, 44.135],
+  [-76.17, 44.21],
+  [-75.98, 44.345],
+  [-75.82, 44.43],
+  [-75.7, 44.55],
+  [-75.5, 44.7],
+  [-75.2, 44.85],
+  [-74.99, 44.98],
+  [-74.74, 45.0],
+  [-71.5, 45.01],
+  [-71.08, 45.3],
+  [-70.8, 45.4],
+  [-70.4, 45.7],
+  [-70.0, 46.7],
+  [-69.22, 47.46],
+  [-68.9, 47.18],
+  [-68.6, 47.255],
+  [-68.33, 47.365],
+  [-68.1, 47.28],
+  [-67.94, 47.165],
+  [-67.79, 47.07],
+  [-67.78, 45.95],
+  [-67.8, 45.7],
+  [-67.43, 45.58],
+  [-67.4, 45.25],
+  [-67.28, 45.19],
+  [-67.08, 45.07],
+  [-66.95, 44.8],
+  [-67.0, 43.0],
+  [-50.0, 40.0],
+  [-50.0, 84.0],
+];
+
+function insidePolygon(lon: number, lat: number, polygon: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Consecutive position fixes on the other side before a crossing is recorded, so GPS jitter next to
+// the border does not switch the rule set back and forth
+export const BORDER_CONFIRM_FIXES = 3;
+
+export function jurisdictionAt(lat: number, lon: number): Jurisdiction {
+  return insidePolygon(lon, lat, CANADA_OUTLINE) ? 'CA' : 'US';
+}
+
+// Walk a route ([lon, lat] coordinates, as returned by the routing API) and report every border crossing
+export function findBorderCrossings(coords: Array<[number, number]>): BorderCrossing[] {
+  if (coords.length < 2) return [];
+
+  let total = 0;
+  const cumulative = [0];
+  for (let i = 1; i < coords.length; i++) {
+    total += haversineMiles(coords[i - 1][1], coords[i - 1][0], coords[i][1], coords[i][0]);
+    cumulative.push(total);
+  }
+
+  const crossings: BorderCrossing[] = [];
+  let current = jurisdictionAt(coords[0][1], coords[0][0]);
+  for (let i = 1; i < coords.length; i++) {
+    const next = jurisdictionAt(coords[i][1], coords[i][0]);
+    if (next === current) continue;
+    crossings.push({
+      lat: coords[i][1],
+      lon: coords[i][0],
+      distance: cumulative[i],
+      fraction: total > 0 ? cumulative[i] / total : 0,
+      jurisdiction: next,
+    });
+    current = next;
+  }
+  return crossings;
+}
+
+// Point a given share (0..1) of the way along a route of [lon, lat] coordinates
+export function pointAlongRoute(coords: Array<[number, number]>, fraction: number): [number, number] {
+  if (coords.length === 0) return [0, 0];
+  if (coords.length === 1 || fraction <= 0) return coords[0];
+
+  const lengths: number[] = [];
+  let total = 0;
+  for (let i = 1; i < coords.length; i++) {
+    const d = haversineMiles(coords[i - 1][1], coords[i - 1][0], coords[i][1], coords[i][0]);
+    lengths.push(d);
+    total += d;
+  }
+
+  let target = Math.min(1, fraction) * total;
+  for (let i = 0; i < lengths.length; i++) {
+    if (target <= lengths[i] && lengths[i] > 0) {
+      const t = target / lengths[i];
+      return [
+        coords[i][0] + (coords[i + 1][0] - coords[i][0]) * t,
+        coords[i][1] + (coords[i + 1][1] - coords[i][1]) * t,
+      ];
+    }
+    target -= lengths[i];
+  }
+  return coords[coords.length - 1];
+}
@@ -0,0 +1,119 @@
+import type { GeoProvider, RouteResult } from './geocode';
+import { METERS_PER_MILE, uniqueSuggestions } from './geocode';
+import type { TruckProfile } from './truck';
+
+const BASE = 'https://api.geoapify.com/v1';
+
+// Geoapify returns one route per request, so alternatives come from asking for different route types
+const ROUTE_TYPES = [
+  { type: 'balanced', label: 'Fastest' },
+  { type: 'short', label: 'Shortest' },
+  { type: 'less_maneuvers', label: 'Fewest turns' },
+];
+
+const METERS_PER_FOOT = 0.3048;
+const KG_PER_POUND = 0.45359237;
+
+// Truck routing modes also take the vehicle's dimensions, in meters and metric tonnes; hazmat is
+// covered by the truck_dangerous_goods mode
+const truckParams = (truck: TruckProfile) =>
+  [
+    `height=${(truck.height * METERS_PER_FOOT).toFixed(2)}`,
+    `width=${(truck.width * METERS_PER_FOOT).toFixed(2)}`,
+    `length=${(truck.length * METERS_PER_FOOT).toFixed(2)}`,
+    `weight=${((truck.grossWeight * KG_PER_POUND) / 1000).toFixed(1)}`,
+    `axles=${truck.axles}`,
+  ].join('&');
+
+export function createGeoapifyProvider(apiKey: string): GeoProvider {
+  const getJson = async (path: string) => {
+    const res = await fetch(`${BASE}${path}&apiKey=${apiKey}`);
+    return res.ok ? res.json() : null;
+  };
+
+  const search = async (path: string, limit: number) => {
+    try {
+      const json = await getJson(path);
+      const items = (json?.features || []).map((f: any) => ({
+        label: f.properties?.formatted,
+        lat: f.properties?.lat,
+        lon: f.properties?.lon,
+      }));
+      return uniqueSuggestions(items, limit);
+    } catch (e) {
+      return [];
+    }
+  };
+
+  return {
+    id: 'geoapify',
+    name: 'Geoapify',
+    truckRouting: true,
+    truckDimensions: ['height', 'width', 'length', 'grossWeight', 'axles', 'hazmat'],
+
+    autocomplete: async (query) => {
+      if (!query || query.trim().length === 0) return [];
+      return search(`/geocode/autocomplete?text=${encodeURIComponent(query)}&limit=6`, 6);
+    },
+
+    geocode: async (query) => {
+      if (!query || query.trim().length === 0) return null;
+      const [first] = await search(`/geocode/search?text=${encodeURIComponent(query)}&limit=1`, 1);
+      return first || null;
+    },
+
+    reverseGeocode: async (lat, lon) => {
+      try {
+        const json = await getJson(`/geocode/reverse?lat=${lat}&lon=${lon}`);
+        const props = json?.features?.[0]?.properties;
+        const city = props?.city || props?.town || props?.village;
+        if (!city) return null;
+        return props?.state_code ? `${city}, ${props.state_code.toUpperCase()}` : city;
+      } catch (e) {
+        return null;
+      }
+    },
+
+    route: async ({ waypoints, truck, alternatives }) => {
+      const points = waypoints.map((w) => `${w.lat},${w.lon}`).join('|');
+      const responses = await Promise.all(
+        ROUTE_TYPES.slice(0, Math.max(1, alternatives)).map(async ({ type, label }) => {
+          try {
+            const json = await getJson(
+              `/routing?waypoints=${encodeURIComponent(points)}&mode=${truck.mode}&${truckParams(truck.profile)}&type=${type}&details=route_details`,
+            );
+            return (json?.features || []).map((feat: any, idx: number): RouteResult => {
+              const props = feat?.properties || {};
+              const dist = props?.distance || props?.distance_in_meters || 0;
+              const duration = props?.time || props?.travel_time || props?.duration || 0;
+              // Multi-waypoint routes come back as one line per leg
+              const raw = feat?.geometry?.coordinates || [];
+              const coords: Array<[number, number]> = feat?.geometry?.type === 'MultiLineString' ? raw.flat() : raw;
+              // Geoapify reports meters and seconds; the rest of the app works in miles and hours
+              const rawLegs: any[] = Array.isArray(props.legs) ? props.legs : [];
+              const legs = rawLegs.length > 0
+                ? rawLegs.map((leg: any) => ({ distance: (leg.distance || 0) / METERS_PER_MILE, duration: (leg.time || 0) / 3600 }))
+                : [{ distance: dist / METERS_PER_MILE, duration: duration / 3600 }];
+              const tollMeters = rawLegs
+                .flatMap((leg: any) => (Array.isArray(leg.steps) ? leg.steps : []))
+                .filter((step: any) => step.toll)
+                .reduce((sum: number, step: any) => sum + (step.distance || 0), 0);
+              return {
+                id: `${type}-${idx}`,
+                label: idx === 0 ? label : `${label} ${idx + 1}`,
+                distance: dist / METERS_PER_MILE,
+                duration: duration / 3600,
+                tollMiles: tollMeters / METERS_PER_MILE,
+                coords,
+                legs,
+              };
+            });
+          } catch (e) {
+            return [];
+          }
+        }),
+      );
+      return responses.flat();
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { TruckDimension, TruckRouting } from './truck';
+import { createGeoapifyProvider } from './geoapifyProvider';
+import { createOsrmProvider } from './osrmProvider';
+import { createOfflineProvider } from './offlineProvider';
+
+// Geocoding and routing behind one interface, so the app can run against Geoapify, a
+// Nominatim/OSRM-compatible server or the bundled offline data.
+
+export type GeoProviderId = 'geoapify' | 'osrm' | 'offline';
+
+export interface Suggestion {
+  label: string;
+  lat: number;
+  lon: number;
+}
+
+export interface RouteRequest {
+  waypoints: Array<{ lat: number; lon: number }>; // stops in visiting order
+  truck: TruckRouting;
+  alternatives: number; // how many routes to ask for at most
+}
+
+export interface RouteResult {
+  id: string;
+  label: string;
+  distance: number; // miles
+  duration: number; // driving hours
+  tollMiles: number;
+  coords: Array<[number, number]>; // [lon, lat] along the whole route
+  legs: Array<{ distance: number; duration: number }>; // one per pair of consecutive waypoints, miles and hours
+}
+
+export interface GeoProvider {
+  id: GeoProviderId;
+  name: string;
+  truckRouting: boolean; // false when routes ignore the truck profile
+  truckDimensions: TruckDimension[]; // profile fields sent with a route request; routing ignores the rest
+  autocomplete: (query: string) => Promise<Suggestion[]>;
+  geocode: (query: string) => Promise<Suggestion | null>;
+  reverseGeocode: (lat: number, lon: number) => Promise<string | null>; // "City, ST"
+  route: (request: RouteRequest) => Promise<RouteResult[]>; // best route first
+}
+
+export const METERS_PER_MILE = 1609.344;
+
+// Drop repeated labels, keeping the first occurrence
+export const uniqueSuggestions = (items: Suggestion[], limit: number): Suggestion[] => {
+  const uniq: Suggestion[] = [];
+  for (const it of items) if (it.label && !uniq.find((u) => u.label === it.label)) uniq.push(it);
+  return uniq.slice(0, limit);
+};
+
+let provider: GeoProvider | null = null;
+
+// VITE_GEO_PROVIDER picks the provider; without it Geoapify is used when a key is configured, offline otherwise
+export function getGeoProvider(): GeoProvider {
+  if (provider) return provider;
+  const apiKey = import.meta.env.VITE_GEOAPIFY_API_KEY || '';
+  const id = (import.meta.env.VITE_GEO_PROVIDER || (apiKey ? 'geoapify' : 'offline')) as GeoProviderId;
+  switch (id) {
+    case 'geoapify':
+      provider = apiKey ? createGeoapifyProvider(apiKey) : createOfflineProvider();
+      break;
+    case 'osrm':
+      provider = createOsrmProvider(
+        import.meta.env.VITE_NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+        import.meta.env.VITE_OSRM_URL || 'https://router.project-osrm.org',
+      );
+      break;
+    default:
+      provider = createOfflineProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { clockToTime, evaluateHos, DutyPeriod, DutyStatus, RuleSwitch } from './hos';
+import { getRuleSet } from './hosRules';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const BASE = '2026-02-02';
+
+// Epoch ms for an HH:MM clock reading `day` days after BASE
+const at = (day: number, time: string) => clockToTime(BASE, time) + day * DAY;
+
+const period = (status: DutyStatus, start: number, end: number): DutyPeriod => ({ status, start, end });
+
+const usProperty = getRuleSet('us-property-70');
+
+describe('evaluateHos', () => {
+  it('flags driving past the 11-hour limit', () => {
+    const history = [
+      period('on-duty-not-driving', at(0, '06:00'), at(0, '07:00')),
+      period('driving', at(0, '07:00'), at(0, '15:00')),
+      period('on-duty-not-driving', at(0, '15:00'), at(0, '15:30')),
+      period('driving', at(0, '15:30'), at(0, '19:30')),
+    ];
+    const hos = evaluateHos(history, new Date(at(0, '19:30')), usProperty);
+
+    expect(hos.violations.map((v) => v.rule)).toEqual(['driving-limit']);
+    expect(hos.violations[0].start).toBe(at(0, '18:30'));
+    expect(hos.violations[0].overBy).toBeCloseTo(1);
+    expect(hos.driving.remaining).toBe(0);
+  });
+
+  it('flags driving after the 14-hour duty window', () => {
+    const history = [
+      period('on-duty-not-driving', at(0, '06:00'), at(0, '16:00')),
+      period('driving', at(0, '16:00'), at(0, '21:00')),
+    ];
+    const hos = evaluateHos(history, new Date(at(0, '21:00')), usProperty);
+
+    expect(hos.violations.map((v) => v.rule)).toEqual(['duty-window']);
+    expect(hos.violations[0].start).toBe(at(0, '20:00'));
+    expect(hos.violations[0].overBy).toBeCloseTo(1);
+  });
+
+  it('pairs a 7-hour sleeper period with a 3-hour off-duty period', () => {
+    const history = [
+      period('driving', at(0, '06:00'), at(0, '14:00')),
+      period('sleeper-berth', at(0, '14:00'), at(0, '21:00')),
+      period('driving', at(0, '21:00'), at(1, '00:00')),
+      period('off-duty', at(1, '00:00'), at(1, '03:00')),
+      period('driving', at(1, '03:00'), at(1, '05:00')),
+    ];
+    const hos = evaluateHos(history, new Date(at(1, '05:00')), usProperty);
+
+    expect(hos.sleeperPairs).toHaveLength(1);
+    expect(hos.sleeperPairs[0].label).toBe('7/3');
+    // The clocks restart from the end of the first period, not counting the second
+    expect(hos.shiftStart).toBe(at(0, '21:00'));
+    expect(hos.driving.used).toBeCloseTo(5);
+    expect(hos.window.used).toBeCloseTo(5);
+    expect(hos.violations).toEqual([]);
+  });
+
+  it('does not pair rest periods that fall short of the split', () => {
+    const history = [
+      period('driving', at(0, '06:00'), at(0, '12:00')),
+      period('sleeper-berth', at(0, '12:00'), at(0, '18:00')),
+      period('driving', at(0, '18:00'), at(0, '21:00')),
+      period('off-duty', at(0, '21:00'), at(0, '23:00')),
+      period('driving', at(0, '23:00'), at(1, '01:00')),
+    ];
+    const hos = evaluateHos(history, new Date(at(1, '01:00')), usProperty);
+
+    // A 6-hour sleeper period is not excluded, so the window still closes 14 hours after 06:00
+    expect(hos.sleeperPairs).toEqual([]);
+    expect(hos.violations.find((v) => v.rule === 'duty-window')?.start).toBe(at(0, '20:00'));
+  });
+
+  it('restarts the cycle after 34 consecutive hours off duty', () => {
+    const history = [
+      period('on-duty-not-driving', at(0, '06:00'), at(0, '20:00')),
+      period('off-duty', at(0, '20:00'), at(2, '06:00')),
+      period('on-duty-not-driving', at(2, '06:00'), at(2, '08:00')),
+    ];
+    const hos = evaluateHos(history, new Date(at(2, '08:00')), usProperty);
+
+    expect(hos.lastRestart).toBe(at(2, '06:00'));
+    expect(hos.cycle.used).toBeCloseTo(2);
+  });
+
+  it('does not restart the cycle after 33 hours off duty', () => {
+    const history = [
+      period('on-duty-not-driving', at(0, '06:00'), at(0, '20:00')),
+      period('off-duty', at(0, '20:00'), at(2, '05:00')),
+      period('on-duty-not-driving', at(2, '05:00'), at(2, '07:00')),
+    ];
+    const hos = evaluateHos(history, new Date(at(2, '07:00')), usProperty);
+
+    expect(hos.lastRestart).toBeNull();
+    expect(hos.cycle.used).toBeCloseTo(16);
+  });
+
+  it('evaluates each part of a shift under the rules in force after a border crossing', () => {
+    const history = [
+      period('on-duty-not-driving', at(0, '06:00'), at(0, '06:30')),
+      period('driving', at(0, '06:30'), at(0, '18:30')),
+    ];
+    const switches: RuleSwitch[] = [{ at: at(0, '08:00'), jurisdiction: 'CA' }];
+    const now = new Date(at(0, '18:30'));
+
+    // 12 hours of driving is within Canada's 13-hour limit, and Canada has no 30-minute break
+    const crossed = evaluateHos(history, now, usProperty, { switches });
+    expect(crossed.rules.id).toBe('canada-cycle-1');
+    expect(crossed.driving.limit).toBe(13);
+    expect(crossed.violations).toEqual([]);
+
+    // The same shift kept under US rules breaks the 11-hour limit and the break requirement
+    const home = evaluateHos(history, now, usProperty);
+    expect(home.violations.map((v) => v.rule).sort()).toEqual(['driving-limit', 'rest-break']);
+  });
+
+  it('applies the home rules again after crossing back', () => {
+    const history = [period('driving', at(0, '06:00'), at(0, '18:00'))];
+    const switches: RuleSwitch[] = [
+      { at: at(0, '07:00'), jurisdiction: 'CA' },
+      { at: at(0, '17:30'), jurisdiction: 'US' },
+    ];
+    const hos = evaluateHos(history, new Date(at(0, '18:00')), usProperty, { switches });
+
+    expect(hos.rules.id).toBe('us-property-70');
+    expect(hos.violations.some((v) => v.rule === 'driving-limit' && v.start === at(0, '17:30'))).toBe(true);
+  });
+});
@@ -0,0 +1,593 @@
+import type { ELDEntry, ELDLog, ActiveActivity } from '../contexts/TripContext';
+import { getRuleSet, ruleSetForJurisdiction, HosRuleSet } from './hosRules';
+import type { Jurisdiction } from './geo';
+
+// Hours-of-Service engine. Limits come from the driver's selected rule set (see hosRules.ts),
+// switching to the other country's rules from the moment a border crossing is recorded.
+// All internal arithmetic is done in epoch milliseconds; results are reported in hours.
+
+export type DutyStatus = ELDEntry['status'];
+
+export interface DutyPeriod {
+  id?: string;
+  status: DutyStatus;
+  start: number; // epoch ms
+  end: number; // epoch ms
+}
+
+export interface HosClock {
+  limit: number; // hours
+  used: number; // hours
+  remaining: number; // hours
+}
+
+export type HosRule = 'driving-limit' | 'duty-window' | 'on-duty-limit' | 'rest-break' | 'cycle-limit';
+
+// 'egregious' follows the FMCSA threshold of three or more hours past a limit
+export type ViolationSeverity = 'minor' | 'serious' | 'egregious';
+
+export interface Violation {
+  rule: HosRule;
+  citation: string;
+  message: string;
+  start: number; // epoch ms when the limit was exceeded
+  end: number; // epoch ms when the driving past the limit stopped
+  severity: ViolationSeverity;
+  overBy: number; // hours driven past the limit
+}
+
+// Point in time where the driver crossed into another jurisdiction and its rules took over
+export interface RuleSwitch {
+  at: number; // epoch ms
+  jurisdiction: Jurisdiction;
+  location?: string;
+}
+
+export type HosExceptionType = 'adverse-conditions' | 'short-haul-16' | 'short-haul-exempt';
+
+// An exception the driver claimed, with the annotation the regulations require
+export interface HosException {
+  id: string;
+  type: HosExceptionType;
+  claimedAt: number; // epoch ms
+  annotation: string;
+  endedAt?: number; // exempt mode only: when the driver switched back to regular logging
+}
+
+export const HOS_EXCEPTION_LABELS: Record<HosExceptionType, string> = {
+  'adverse-conditions': 'Adverse driving conditions',
+  'short-haul-16': '16-hour short-haul extension',
+  'short-haul-exempt': '150 air-mile short-haul exemption',
+};
+
+export function exceptionCitation(type: HosExceptionType, rules: HosRuleSet): string {
+  switch (type) {
+    case 'adverse-conditions':
+      return rules.adverseCitation;
+    case 'short-haul-16':
+      return '49 CFR 395.1(o)';
+    case 'short-haul-exempt':
+      return '49 CFR 395.1(e)(1)';
+  }
+}
+
+export const DUTY_STATUS_LABELS: Record<DutyStatus, string> = {
+  'off-duty': 'Off Duty',
+  'sleeper-berth': 'Sleeper Berth',
+  driving: 'Driving',
+  'on-duty-not-driving': 'On Duty (Not Driving)',
+};
+
+// Special driving categories: the truck moves, but the time is logged under another duty status and
+// does not count against the driving limits
+export type SpecialCategory = 'personal-conveyance' | 'yard-move';
+
+export const SPECIAL_CATEGORIES: Record<SpecialCategory, { label: string; code: string; status: DutyStatus }> = {
+  'personal-conveyance': { label: 'Personal Conveyance', code: 'PC', status: 'off-duty' },
+  'yard-move': { label: 'Yard Move', code: 'YM', status: 'on-duty-not-driving' },
+};
+
+export const isSpecialCategory = (value: unknown): value is SpecialCategory =>
+  value === 'personal-conveyance' || value === 'yard-move';
+
+export interface HosOptions {
+  switches?: RuleSwitch[];
+  exceptions?: HosException[];
+  asOf?: number; // per-day helpers evaluate up to this time instead of now (projected logs)
+}
+
+export interface SleeperPair {
+  first: { start: number; end: number };
+  second: { start: number; end: number };
+  label: string; // e.g. '7/3' or '8/2'
+}
+
+export interface HosStatus {
+  rules: HosRuleSet;
+  driving: HosClock; // e.g. 11-hour driving limit
+  window: HosClock; // e.g. 14-hour duty window
+  onDuty: HosClock | null; // on-duty cap inside the window, where the rule set has one
+  break: HosClock | null; // driving allowed before a 30-minute interruption is required
+  cycle: HosClock; // e.g. 60/70-hour cycle
+  shiftStart: number | null;
+  lastRestart: number | null; // end of the most recent cycle restart
+  violations: Violation[];
+  sleeperPairs: SleeperPair[];
+  exceptions: HosException[]; // exceptions honored for the current shift
+  exempt: boolean; // operating under the 150 air-mile exemption right now
+  shortHaulAvailable: boolean; // the 16-hour extension has not been used this cycle
+}
+
+export interface DutyTotals {
+  offDuty: number;
+  sleeperBerth: number;
+  driving: number;
+  onDuty: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const isOnDuty = (status: DutyStatus) => status === 'driving' || status === 'on-duty-not-driving';
+
+const toHours = (ms: number) => ms / HOUR;
+
+const severityFor = (overBy: number): ViolationSeverity => {
+  if (overBy >= 3) return 'egregious';
+  return overBy > 0.25 ? 'serious' : 'minor';
+};
+
+export function ruleCitation(rules: HosRuleSet, rule: HosRule): string {
+  return rules.ruleCitations[rule] ?? rules.citation;
+}
+
+const clock = (limit: number, used: number): HosClock => ({
+  limit,
+  used,
+  remaining: Math.max(0, limit - used),
+});
+
+// Local midnight for a YYYY-MM-DD date key
+export function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+export function toDateKey(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+// Convert an HH:MM clock reading on a given day to epoch ms
+export function clockToTime(date: string, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return startOfDay(date) + ((hours || 0) * 60 + (minutes || 0)) * 60 * 1000;
+}
+
+export function entryToPeriod(date: string, entry: ELDEntry): DutyPeriod {
+  const start = clockToTime(date, entry.startTime);
+  let end = clockToTime(date, entry.endTime);
+  // Entries that run past midnight are recorded with an end time earlier than the start
+  if (end < start) end += DAY;
+  return { id: entry.id, status: entry.status, start, end };
+}
+
+export function periodsFromLogs(logs: ELDLog[]): DutyPeriod[] {
+  return logs.flatMap((log) => log.logs.map((entry) => entryToPeriod(log.date, entry)));
+}
+
+export function periodFromActivity(activity: ActiveActivity, now: number): DutyPeriod {
+  return {
+    id: activity.id,
+    status: activity.status,
+    start: new Date(activity.startTime).getTime(),
+    end: now,
+  };
+}
+
+export function summarizeDutyTotals(entries: Array<Pick<ELDEntry, 'status' | 'duration'>>): DutyTotals {
+  const totals: DutyTotals = { offDuty: 0, sleeperBerth: 0, driving: 0, onDuty: 0 };
+  entries.forEach((entry) => {
+    const duration = entry.duration || 0;
+    switch (entry.status) {
+      case 'off-duty':
+        totals.offDuty += duration;
+        break;
+      case 'sleeper-berth':
+        totals.sleeperBerth += duration;
+        break;
+      case 'driving':
+        totals.driving += duration;
+        break;
+      case 'on-duty-not-driving':
+        totals.onDuty += duration;
+        break;
+    }
+  });
+  return totals;
+}
+
+// Sort, clip to `now` and fill unrecorded gaps with off-duty time
+function normalizePeriods(periods: DutyPeriod[], now: number): DutyPeriod[] {
+  const sorted = periods
+    .filter((p) => p.start < now && p.end > p.start)
+    .map((p) => ({ ...p, end: Math.min(p.end, now) }))
+    .sort((a, b) => a.start - b.start);
+
+  const result: DutyPeriod[] = [];
+  let cursor: number | null = null;
+  for (const p of sorted) {
+    const start: number = cursor !== null ? Math.max(p.start, cursor) : p.start;
+    if (start >= p.end) continue;
+    if (cursor !== null && start > cursor) {
+      result.push({ status: 'off-duty', start: cursor, end: start });
+    }
+    result.push({ ...p, start });
+    cursor = p.end;
+  }
+  if (cursor !== null && cursor < now) {
+    result.push({ status: 'off-duty', start: cursor, end: now });
+  }
+  return result;
+}
+
+// Cut periods at each rule switch so every period falls under a single rule set
+function splitAtSwitches(periods: DutyPeriod[], switches: RuleSwitch[]): DutyPeriod[] {
+  if (switches.length === 0) return periods;
+  return periods.flatMap((p) => {
+    const cuts = switches.map((s) => s.at).filter((at) => at > p.start && at < p.end).sort((a, b) => a - b);
+    if (cuts.length === 0) return [p];
+    const bounds = [p.start, ...cuts, p.end];
+    return bounds.slice(1).map((end, i) => ({ ...p, start: bounds[i], end }));
+  });
+}
+
+// On-duty hours recorded inside [from, to)
+function onDutyBetween(periods: DutyPeriod[], from: number, to: number): number {
+  return periods.reduce((sum, p) => {
+    if (!isOnDuty(p.status)) return sum;
+    const overlap = Math.min(p.end, to) - Math.max(p.start, from);
+    return overlap > 0 ? sum + overlap : sum;
+  }, 0);
+}
+
+// Start of the 7/8-day lookback, cut short by a 34-hour restart that ended inside it
+function cycleStart(at: number, days: number, lastRestart: number | null): number {
+  const today = startOfDay(toDateKey(new Date(at)));
+  const lookback = today - (days - 1) * DAY;
+  return lastRestart !== null ? Math.max(lookback, lastRestart) : lookback;
+}
+
+interface RestRun {
+  start: number;
+  end: number;
+  longestSleeper: number; // longest consecutive sleeper-berth stretch inside the run
+  drivingAtEnd: number; // cumulative driving when the run ended
+  onDutyAtEnd: number; // cumulative on-duty time when the run ended
+}
+
+const restLength = (run: RestRun) => run.end - run.start;
+
+export function evaluateHos(
+  history: DutyPeriod[],
+  now: Date = new Date(),
+  homeRules: HosRuleSet = getRuleSet(),
+  { switches = [], exceptions = [] }: HosOptions = {},
+): HosStatus {
+  const nowMs = now.getTime();
+  const sortedSwitches = [...switches].sort((a, b) => a.at - b.at);
+  const periods = splitAtSwitches(normalizePeriods(history, nowMs), sortedSwitches);
+  const violations: Violation[] = [];
+  const sleeperPairs: SleeperPair[] = [];
+
+  // Rules in force at a given time, following any border crossings
+  const rulesAt = (at: number): HosRuleSet => {
+    const last = sortedSwitches.filter((s) => s.at <= at).pop();
+    return last ? ruleSetForJurisdiction(homeRules, last.jurisdiction) : homeRules;
+  };
+  let rules = homeRules;
+
+  // shiftStart is the calculation point the duty window and driving limit run from
+  let shiftStart: number | null = null;
+  let windowExcluded = 0; // rest time inside an elapsed window that does not count against it
+  let shiftDriving = 0;
+  let shiftOnDuty = 0;
+  let totalDriving = 0;
+  let totalOnDuty = 0;
+  let drivingSinceBreak = 0;
+  let interruptionRun = 0; // consecutive non-driving time
+  let run: RestRun | null = null; // current consecutive off-duty/sleeper run
+  let sleeperStreak = 0;
+  let lastQualifying: RestRun | null = null; // last rest that may start a split-sleeper pair
+  let lastRestart: number | null = null;
+  let resetAt = -Infinity; // when the last full off-duty reset completed; claims after it belong to this shift
+  let lastShortHaul: number | null = null; // claim time of the last honored 16-hour extension
+  const honored = new Set<string>();
+  // Violations still accruing driving time; closed once the limit resets
+  const open: Partial<Record<HosRule, Violation>> = {};
+
+  const close = (...closing: HosRule[]) => {
+    closing.forEach((rule) => delete open[rule]);
+  };
+
+  // Start a violation, or extend the open one for the same rule through `end`
+  const flag = (rule: HosRule, message: string, start: number, end: number) => {
+    const current = open[rule];
+    if (current) {
+      current.overBy += toHours(end - Math.max(start, current.end));
+      current.end = end;
+      current.severity = severityFor(current.overBy);
+      return;
+    }
+    const overBy = toHours(end - start);
+    const violation: Violation = {
+      rule,
+      citation: ruleCitation(rules, rule),
+      message,
+      start,
+      end,
+      severity: severityFor(overBy),
+      overBy,
+    };
+    open[rule] = violation;
+    violations.push(violation);
+  };
+
+  const claimedInShift = (type: HosExceptionType, at: number) =>
+    exceptions.find((e) => e.type === type && e.claimedAt >= resetAt && e.claimedAt <= at);
+
+  const isExempt = (at: number) =>
+    rules.shortHaulExemption !== null
+    && exceptions.some((e) => e.type === 'short-haul-exempt' && e.claimedAt <= at && (e.endedAt ?? Infinity) > at);
+
+  // Limits for the current shift, including any extensions claimed up to `at`
+  const shiftLimits = (at: number) => {
+    const adverse = claimedInShift('adverse-conditions', at);
+    if (adverse) honored.add(adverse.id);
+    const extra = adverse ? rules.adverseExtension : 0;
+
+    let window = rules.dutyWindow;
+    const shortHaul = rules.shortHaulWindow !== null ? claimedInShift('short-haul-16', at) : undefined;
+    if (shortHaul) {
+      // Usable once per 7 days, or again after a restart
+      const available = lastShortHaul === null
+        || lastShortHaul === shortHaul.claimedAt
+        || (lastRestart !== null && lastRestart > lastShortHaul)
+        || shortHaul.claimedAt - lastShortHaul >= 7 * DAY;
+      if (available) {
+        lastShortHaul = shortHaul.claimedAt;
+        honored.add(shortHaul.id);
+        window = Math.max(window, rules.shortHaulWindow!);
+      }
+    }
+
+    return {
+      driving: rules.maxDriving + extra,
+      window: window + extra,
+      onDuty: rules.maxOnDuty !== null ? rules.maxOnDuty + extra : null,
+    };
+  };
+
+  const isLongRest = (r: RestRun) => rules.splitSleeper !== null && r.longestSleeper >= rules.splitSleeper.long * HOUR;
+
+  // Close the current rest run and apply the sleeper-berth split provision (e.g. 395.1(g)(1)(ii))
+  const finishRun = (current: RestRun) => {
+    const length = restLength(current);
+    const split = rules.splitSleeper;
+    if (length >= rules.offDutyReset * HOUR) {
+      lastQualifying = null;
+      return;
+    }
+    if (!split || length < split.short * HOUR || shiftStart === null) return;
+
+    const first = lastQualifying;
+    if (first && (isLongRest(first) || isLongRest(current))
+      && restLength(first) + length >= split.total * HOUR) {
+      const sleeper = isLongRest(first) ? first : current;
+      const other = sleeper === first ? current : first;
+      sleeperPairs.push({
+        first: { start: first.start, end: first.end },
+        second: { start: current.start, end: current.end },
+        label: `${Math.floor(toHours(restLength(sleeper)))}/${Math.floor(toHours(restLength(other)))}`,
+      });
+      // Recalculate from the end of the first period, excluding the second from the window
+      shiftStart = first.end;
+      windowExcluded = length;
+      shiftDriving = totalDriving - first.drivingAtEnd;
+      shiftOnDuty = totalOnDuty - first.onDutyAtEnd;
+      close('driving-limit', 'duty-window', 'on-duty-limit');
+    } else if (isLongRest(current)) {
+      // A qualifying sleeper period is provisionally excluded while its pair is pending
+      windowExcluded += length;
+    }
+    lastQualifying = current;
+  };
+
+  for (const p of periods) {
+    const duration = p.end - p.start;
+    rules = rulesAt(p.start);
+
+    if (!isOnDuty(p.status)) {
+      if (!run) {
+        run = { start: p.start, end: p.start, longestSleeper: 0, drivingAtEnd: totalDriving, onDutyAtEnd: totalOnDuty };
+      }
+      run.end = p.end;
+      sleeperStreak = p.status === 'sleeper-berth' ? sleeperStreak + duration : 0;
+      run.longestSleeper = Math.max(run.longestSleeper, sleeperStreak);
+      interruptionRun += duration;
+      if (restLength(run) >= rules.offDutyReset * HOUR) {
+        resetAt = run.start + rules.offDutyReset * HOUR;
+        shiftStart = null;
+        windowExcluded = 0;
+        shiftDriving = 0;
+        shiftOnDuty = 0;
+        drivingSinceBreak = 0;
+        close('driving-limit', 'duty-window', 'on-duty-limit', 'rest-break');
+      }
+      if (rules.restartHours !== null && restLength(run) >= rules.restartHours * HOUR) {
+        lastRestart = run.end;
+        close('cycle-limit');
+      }
+      if (interruptionRun >= rules.breakDuration * HOUR) {
+        drivingSinceBreak = 0;
+        close('rest-break');
+      }
+      continue;
+    }
+
+    if (run) {
+      finishRun(run);
+      run = null;
+    }
+    sleeperStreak = 0;
+    if (shiftStart === null) shiftStart = p.start;
+
+    if (p.status === 'on-duty-not-driving') {
+      shiftOnDuty += duration;
+      totalOnDuty += duration;
+      interruptionRun += duration;
+      if (interruptionRun >= rules.breakDuration * HOUR) {
+        drivingSinceBreak = 0;
+        close('rest-break');
+      }
+      continue;
+    }
+
+    interruptionRun = 0;
+    const limits = shiftLimits(p.end);
+
+    const drivingLimit = limits.driving * HOUR;
+    if (shiftDriving + duration > drivingLimit) {
+      flag(
+        'driving-limit',
+        `Driving exceeds ${limits.driving} hours`,
+        p.start + Math.max(0, drivingLimit - shiftDriving),
+        p.end,
+      );
+    }
+
+    if (rules.windowBasis === 'elapsed') {
+      const windowEnd = shiftStart + limits.window * HOUR + windowExcluded;
+      if (p.end > windowEnd) {
+        flag('duty-window', `Driving after the ${limits.window}-hour duty window`, Math.max(p.start, windowEnd), p.end);
+      }
+    } else {
+      const windowLimit = limits.window * HOUR;
+      if (shiftOnDuty + duration > windowLimit) {
+        flag(
+          'duty-window',
+          `Driving after ${limits.window} hours on duty`,
+          p.start + Math.max(0, windowLimit - shiftOnDuty),
+          p.end,
+        );
+      }
+    }
+
+    if (limits.onDuty !== null) {
+      const onDutyLimit = limits.onDuty * HOUR;
+      if (shiftOnDuty + duration > onDutyLimit) {
+        flag(
+          'on-duty-limit',
+          `Driving after ${limits.onDuty} hours on duty`,
+          p.start + Math.max(0, onDutyLimit - shiftOnDuty),
+          p.end,
+        );
+      }
+    }
+
+    // Short-haul exempt drivers skip the break while they stay within the exemption's window
+    const exemptNow = isExempt(p.start)
+      && p.end - shiftStart - windowExcluded <= rules.shortHaulExemption!.window * HOUR;
+    if (rules.drivingBeforeBreak !== null && !exemptNow) {
+      const breakLimit = rules.drivingBeforeBreak * HOUR;
+      if (drivingSinceBreak + duration > breakLimit) {
+        flag(
+          'rest-break',
+          `Driving more than ${rules.drivingBeforeBreak} hours without a 30-minute break`,
+          p.start + Math.max(0, breakLimit - drivingSinceBreak),
+          p.end,
+        );
+      }
+    }
+
+    const cycleLimit = rules.cycleHours * HOUR;
+    const cycleAtEnd = onDutyBetween(periods, cycleStart(p.end, rules.cycleDays, lastRestart), p.end);
+    if (cycleAtEnd > cycleLimit) {
+      flag(
+        'cycle-limit',
+        `Driving after ${rules.cycleHours} hours on duty in ${rules.cycleDays} days`,
+        Math.max(p.start, p.end - (cycleAtEnd - cycleLimit)),
+        p.end,
+      );
+    }
+
+    shiftDriving += duration;
+    shiftOnDuty += duration;
+    totalDriving += duration;
+    totalOnDuty += duration;
+    drivingSinceBreak += duration;
+  }
+
+  // A rest still in progress counts toward a split the moment it qualifies
+  if (run) finishRun(run);
+  rules = rulesAt(nowMs);
+  const limits = shiftLimits(nowMs);
+  const exempt = isExempt(nowMs);
+  const shortHaulAvailable = rules.shortHaulWindow !== null && (
+    lastShortHaul === null
+    || lastShortHaul >= resetAt
+    || (lastRestart !== null && lastRestart > lastShortHaul)
+    || nowMs - lastShortHaul >= 7 * DAY
+  );
+
+  const cycleUsed = onDutyBetween(periods, cycleStart(nowMs, rules.cycleDays, lastRestart), nowMs);
+  let windowUsed = 0;
+  if (shiftStart !== null) {
+    windowUsed = rules.windowBasis === 'elapsed' ? nowMs - shiftStart - windowExcluded : shiftOnDuty;
+  }
+
+  return {
+    rules,
+    driving: clock(limits.driving, toHours(shiftDriving)),
+    window: clock(limits.window, toHours(Math.max(0, windowUsed))),
+    onDuty: limits.onDuty !== null ? clock(limits.onDuty, toHours(shiftOnDuty)) : null,
+    break: rules.drivingBeforeBreak !== null && !exempt
+      ? clock(rules.drivingBeforeBreak, toHours(drivingSinceBreak))
+      : null,
+    cycle: clock(rules.cycleHours, toHours(cycleUsed)),
+    shiftStart,
+    lastRestart,
+    violations,
+    sleeperPairs,
+    exceptions: exceptions.filter((e) => honored.has(e.id) && e.claimedAt >= resetAt),
+    exempt,
+    shortHaulAvailable,
+  };
+}
+
+// Evaluate a single calendar day and keep only the violations that overlap it
+export function violationsForDay(
+  history: DutyPeriod[],
+  date: string,
+  rules?: HosRuleSet,
+  options?: HosOptions,
+): Violation[] {
+  const dayStart = startOfDay(date);
+  const dayEnd = dayStart + DAY;
+  return evaluateHos(history, new Date(Math.min(dayEnd, options?.asOf ?? Date.now())), rules, options)
+    .violations.filter((v) => v.start < dayEnd && v.end > dayStart);
+}
+
+// Split-sleeper pairs with at least one period on the given day
+export function sleeperPairsForDay(
+  history: DutyPeriod[],
+  date: string,
+  rules?: HosRuleSet,
+  options?: HosOptions,
+): SleeperPair[] {
+  const dayStart = startOfDay(date);
+  const dayEnd = dayStart + DAY;
+  const overlaps = (r: { start: number; end: number }) => r.start < dayEnd && r.end > dayStart;
+  return evaluateHos(history, new Date(options?.asOf ?? Date.now()), rules, options).sleeperPairs.filter((pair) => overlaps(pair.first) || overlaps(pair.second));
+}
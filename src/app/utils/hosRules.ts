@@ -0,0 +1,182 @@
+import type { Jurisdiction } from './geo';
+import type { HosRule } from './hos';
+
+// Hours-of-Service rule sets a driver profile can be assigned to. All durations are in hours.
+
+export type HosRuleSetId =
+  | 'us-property-70'
+  | 'us-property-60'
+  | 'us-passenger-70'
+  | 'us-passenger-60'
+  | 'canada-cycle-1'
+  | 'canada-cycle-2'
+  | 'texas-intrastate'
+  | 'california-intrastate';
+
+export interface HosRuleSet {
+  id: HosRuleSetId;
+  name: string;
+  citation: string;
+  ruleCitations: Partial<Record<HosRule, string>>; // section for each limit; falls back to `citation`
+  jurisdiction: Jurisdiction;
+  maxDriving: number;
+  dutyWindow: number;
+  // 'elapsed' windows run on the clock from the start of the shift; 'on-duty' windows only count on-duty time
+  windowBasis: 'elapsed' | 'on-duty';
+  maxOnDuty: number | null; // on-duty cap inside an elapsed window (Canada)
+  drivingBeforeBreak: number | null; // null when no 30-minute break is required
+  breakDuration: number;
+  offDutyReset: number;
+  splitSleeper: { long: number; short: number; total: number } | null;
+  cycleHours: number;
+  cycleDays: number;
+  restartHours: number | null; // null when the cycle cannot be restarted
+  adverseExtension: number; // extra driving and window time allowed under adverse driving conditions
+  adverseCitation: string;
+  shortHaulWindow: number | null; // once-per-cycle extended duty window (395.1(o)); null when not offered
+  // 150 air-mile short-haul exemption: return to the work reporting location within `window` hours
+  shortHaulExemption: { radius: number; window: number } | null;
+}
+
+const US_PROPERTY_BASE = {
+  citation: '49 CFR 395.3',
+  ruleCitations: {
+    'driving-limit': '49 CFR 395.3(a)(3)(i)',
+    'duty-window': '49 CFR 395.3(a)(2)',
+    'rest-break': '49 CFR 395.3(a)(3)(ii)',
+    'cycle-limit': '49 CFR 395.3(b)',
+  },
+  jurisdiction: 'US' as const,
+  maxDriving: 11,
+  dutyWindow: 14,
+  windowBasis: 'elapsed' as const,
+  maxOnDuty: null,
+  drivingBeforeBreak: 8,
+  breakDuration: 0.5,
+  offDutyReset: 10,
+  splitSleeper: { long: 7, short: 2, total: 10 },
+  restartHours: 34,
+  adverseExtension: 2,
+  adverseCitation: '49 CFR 395.1(b)(1)',
+  shortHaulWindow: 16,
+  shortHaulExemption: { radius: 150, window: 14 },
+};
+
+const US_PASSENGER_BASE = {
+  citation: '49 CFR 395.5',
+  ruleCitations: {
+    'driving-limit': '49 CFR 395.5(a)(1)',
+    'duty-window': '49 CFR 395.5(a)(2)',
+    'cycle-limit': '49 CFR 395.5(b)',
+  },
+  jurisdiction: 'US' as const,
+  maxDriving: 10,
+  dutyWindow: 15,
+  windowBasis: 'on-duty' as const,
+  maxOnDuty: null,
+  drivingBeforeBreak: null,
+  breakDuration: 0.5,
+  offDutyReset: 8,
+  splitSleeper: { long: 2, short: 2, total: 8 },
+  restartHours: null,
+  adverseExtension: 2,
+  adverseCitation: '49 CFR 395.1(b)(1)',
+  shortHaulWindow: null,
+  shortHaulExemption: { radius: 150, window: 12 },
+};
+
+const CANADA_BASE = {
+  citation: 'SOR/2005-313',
+  ruleCitations: {
+    'driving-limit': 'SOR/2005-313 s. 13(1)',
+    'on-duty-limit': 'SOR/2005-313 s. 13(2)',
+    'duty-window': 'SOR/2005-313 s. 13(3)',
+    'cycle-limit': 'SOR/2005-313 s. 26',
+  },
+  jurisdiction: 'CA' as const,
+  maxDriving: 13,
+  dutyWindow: 16,
+  windowBasis: 'elapsed' as const,
+  maxOnDuty: 14,
+  drivingBeforeBreak: null,
+  breakDuration: 0.5,
+  offDutyReset: 8,
+  splitSleeper: { long: 2, short: 2, total: 10 },
+  adverseExtension: 2,
+  adverseCitation: 'SOR/2005-313 s. 76',
+  shortHaulWindow: null,
+  shortHaulExemption: null,
+};
+
+export const HOS_RULE_SETS: HosRuleSet[] = [
+  { ...US_PROPERTY_BASE, id: 'us-property-70', name: 'US Property 70-hour/8-day', cycleHours: 70, cycleDays: 8 },
+  { ...US_PROPERTY_BASE, id: 'us-property-60', name: 'US Property 60-hour/7-day', cycleHours: 60, cycleDays: 7 },
+  { ...US_PASSENGER_BASE, id: 'us-passenger-70', name: 'US Passenger 70-hour/8-day', cycleHours: 70, cycleDays: 8 },
+  { ...US_PASSENGER_BASE, id: 'us-passenger-60', name: 'US Passenger 60-hour/7-day', cycleHours: 60, cycleDays: 7 },
+  { ...CANADA_BASE, id: 'canada-cycle-1', name: 'Canada Cycle 1 (70-hour/7-day)', cycleHours: 70, cycleDays: 7, restartHours: 36 },
+  {
+    ...CANADA_BASE,
+    id: 'canada-cycle-2',
+    name: 'Canada Cycle 2 (120-hour/14-day)',
+    ruleCitations: { ...CANADA_BASE.ruleCitations, 'cycle-limit': 'SOR/2005-313 s. 27' },
+    cycleHours: 120,
+    cycleDays: 14,
+    restartHours: 72,
+  },
+  {
+    id: 'texas-intrastate',
+    name: 'Texas Intrastate 70-hour/7-day',
+    citation: '37 TAC 4.12',
+    ruleCitations: {},
+    jurisdiction: 'US',
+    maxDriving: 12,
+    dutyWindow: 15,
+    windowBasis: 'on-duty',
+    maxOnDuty: null,
+    drivingBeforeBreak: null,
+    breakDuration: 0.5,
+    offDutyReset: 8,
+    splitSleeper: null,
+    cycleHours: 70,
+    cycleDays: 7,
+    restartHours: 34,
+    adverseExtension: 2,
+    adverseCitation: '37 TAC 4.12',
+    shortHaulWindow: null,
+    shortHaulExemption: null,
+  },
+  {
+    id: 'california-intrastate',
+    name: 'California Intrastate 80-hour/8-day',
+    citation: '13 CCR 1212',
+    ruleCitations: {},
+    jurisdiction: 'US',
+    maxDriving: 12,
+    dutyWindow: 16,
+    windowBasis: 'elapsed',
+    maxOnDuty: null,
+    drivingBeforeBreak: null,
+    breakDuration: 0.5,
+    offDutyReset: 10,
+    splitSleeper: null,
+    cycleHours: 80,
+    cycleDays: 8,
+    restartHours: 34,
+    adverseExtension: 2,
+    adverseCitation: '13 CCR 1212',
+    shortHaulWindow: null,
+    shortHaulExemption: null,
+  },
+];
+
+export const DEFAULT_RULE_SET_ID: HosRuleSetId = 'us-property-70';
+
+export function getRuleSet(id?: string | null): HosRuleSet {
+  return HOS_RULE_SETS.find((r) => r.id === id) || HOS_RULE_SETS.find((r) => r.id === DEFAULT_RULE_SET_ID)!;
+}
+
+// Rule set that applies when a driver assigned to `home` is operating in the given jurisdiction
+export function ruleSetForJurisdiction(home: HosRuleSet, jurisdiction: Jurisdiction): HosRuleSet {
+  if (home.jurisdiction === jurisdiction) return home;
+  return getRuleSet(jurisdiction === 'CA' ? 'canada-cycle-1' : 'us-property-70');
+}
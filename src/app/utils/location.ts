@@ -0,0 +1,43 @@
+import { getGeoProvider } from './geocode';
+
+// Location recorded with each duty-status change. A GPS fix is reverse-geocoded to "City, ST";
+// when no fix is available the driver types the location in and it is flagged as manual.
+
+export type LocationSource = 'gps' | 'manual';
+
+export interface CapturedLocation {
+  location: string;
+  lat?: number;
+  lon?: number;
+  source: LocationSource;
+}
+
+export function getCurrentPosition(timeoutMs = 10000): Promise<GeolocationPosition | null> {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve(pos),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 },
+    );
+  });
+}
+
+// Personal conveyance is recorded at reduced precision: coordinates rounded to one decimal place
+// (roughly a 10-mile radius), and a coordinate label is rewritten to match
+export function reducePrecision(loc: CapturedLocation): CapturedLocation {
+  if (loc.lat === undefined || loc.lon === undefined) return loc;
+  const lat = Math.round(loc.lat * 10) / 10;
+  const lon = Math.round(loc.lon * 10) / 10;
+  const coordinateLabel = /^-?\d+(\.\d+)?, -?\d+(\.\d+)?$/.test(loc.location);
+  return { ...loc, lat, lon, location: coordinateLabel ? `${lat.toFixed(1)}, ${lon.toFixed(1)}` : loc.location };
+}
+
+// Null when the device could not get a fix (no permission, no signal, timed out)
+export async function captureLocation(): Promise<CapturedLocation | null> {
+  const pos = await getCurrentPosition();
+  if (!pos) return null;
+  const { latitude: lat, longitude: lon } = pos.coords;
+  const label = await getGeoProvider().reverseGeocode(lat, lon);
+  return { location: label || `${lat.toFixed(4)}, ${lon.toFixed(4)}`, lat, lon, source: 'gps' };
+}
@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ELDEntry, ELDLog } from '../contexts/TripContext';
+import { clockToTime } from './hos';
+import {
+  applyEdit,
+  applyProposal,
+  clearPeriod,
+  loadEditedLogs,
+  saveEditedLogs,
+  withEditedLogs,
+  originalRecordId,
+  proposedEntry,
+  recordRejectedEdit,
+  rejectedProposals,
+  trimmedByProposal,
+  ProposedEdit,
+} from './logEdits';
+
+const DATE = '2026-02-02';
+
+const entry = (id: string, status: ELDEntry['status'], startTime: string, endTime: string): ELDEntry => ({
+  id,
+  status,
+  startTime,
+  endTime,
+  location: 'Buffalo, NY',
+  duration: 0,
+  odometer: 0,
+  engineHours: 0,
+});
+
+const log: ELDLog = {
+  id: 'log-1',
+  date: DATE,
+  driverId: '1',
+  logs: [
+    entry('a', 'off-duty', '00:00', '08:00'),
+    entry('b', 'on-duty-not-driving', '08:00', '09:00'),
+    entry('c', 'off-duty', '09:00', '24:00'),
+  ],
+};
+
+const editedAt = new Date('2026-02-03T10:00:00');
+
+describe('clearPeriod', () => {
+  it('returns the log unchanged when nothing overlaps', () => {
+    const single = { ...log, logs: [log.logs[0]] };
+    expect(clearPeriod(single, clockToTime(DATE, '10:00'), clockToTime(DATE, '11:00'), 'Claimed driving', editedAt)).toBe(single);
+  });
+
+  it('splits, trims and removes overlapped records, keeping the originals inactive', () => {
+    const result = clearPeriod(log, clockToTime(DATE, '07:00'), clockToTime(DATE, '10:30'), 'Claimed driving', editedAt);
+
+    expect(result.logs.map((e) => [e.startTime, e.endTime, e.status])).toEqual([
+      ['00:00', '07:00', 'off-duty'],
+      ['10:30', '24:00', 'off-duty'],
+    ]);
+    expect(result.logs.every((e) => e.annotation === 'Claimed driving' && e.recordStatus === 'active')).toBe(true);
+    expect(result.logs[0].supersedes).toBe('a');
+    expect(result.logs[0].duration).toBeCloseTo(7);
+    expect(result.logs[1].duration).toBeCloseTo(13.5);
+    expect(result.inactiveLogs?.map((e) => [e.id, e.recordStatus])).toEqual([
+      ['a', 'inactive-changed'],
+      ['b', 'inactive-changed'],
+      ['c', 'inactive-changed'],
+    ]);
+    expect(result.changedAt).toBe(editedAt.toISOString());
+  });
+
+  it('splits a record the period falls inside into two pieces', () => {
+    const result = clearPeriod(log, clockToTime(DATE, '12:00'), clockToTime(DATE, '13:00'), 'Claimed driving', editedAt);
+
+    expect(result.logs.map((e) => [e.startTime, e.endTime])).toEqual([
+      ['00:00', '08:00'],
+      ['08:00', '09:00'],
+      ['09:00', '12:00'],
+      ['13:00', '24:00'],
+    ]);
+    expect(new Set(result.logs.map((e) => e.id)).size).toBe(4);
+  });
+});
+
+describe('applyEdit', () => {
+  const pc: ELDLog = {
+    ...log,
+    logs: [{ ...entry('pc', 'off-duty', '18:00', '19:00'), specialCategory: 'personal-conveyance' }],
+  };
+
+  it('drops the special category when the status no longer matches it', () => {
+    const result = applyEdit(pc, 'pc', { status: 'driving' }, 'Was dispatched, not personal use', editedAt);
+    expect(result?.logs[0].status).toBe('driving');
+    expect(result?.logs[0].specialCategory).toBeUndefined();
+    expect(result?.inactiveLogs?.[0].specialCategory).toBe('personal-conveyance');
+  });
+
+  it('keeps the special category for edits that leave the status alone', () => {
+    const result = applyEdit(pc, 'pc', { endTime: '19:30' }, 'Arrived home later', editedAt);
+    expect(result?.logs[0].specialCategory).toBe('personal-conveyance');
+  });
+});
+
+describe('originalRecordId', () => {
+  it('follows repeated edits back to the first record', () => {
+    const once = applyEdit(log, 'b', { notes: 'Loading' }, 'Added the reason', editedAt)!;
+    const editedId = once.logs.find((e) => e.supersedes === 'b')!.id;
+    const twice = applyEdit(once, editedId, { endTime: '08:45' }, 'Loading finished early', new Date(editedAt.getTime() + 60000))!;
+    const latest = twice.logs.find((e) => e.startTime === '08:00')!;
+
+    expect(latest.id).not.toBe(editedId);
+    expect(originalRecordId(twice, latest.id)).toBe('b');
+  });
+});
+
+describe('rejectedProposals', () => {
+  const proposal: ProposedEdit = {
+    id: 'p1',
+    entryId: 'b',
+    changes: { status: 'driving' },
+    annotation: 'GPS shows the truck moving',
+    proposedBy: 'Dispatch',
+    proposedAt: '2026-02-03T09:00:00Z',
+    status: 'rejected',
+  };
+
+  it('lists proposals rejected for earlier versions of an edited entry', () => {
+    const rejected = recordRejectedEdit(log, proposal, editedAt);
+    const edited = applyEdit(rejected, 'b', { notes: 'Loading' }, 'Added the reason', editedAt)!;
+    const latest = edited.logs.find((e) => e.supersedes === 'b')!;
+
+    expect(rejectedProposals(edited, latest).map((e) => e.id)).toEqual(['proposal-p1']);
+    expect(rejectedProposals(edited, edited.logs.find((e) => e.id === 'a')!)).toEqual([]);
+  });
+});
+
+describe('applyProposal', () => {
+  const proposal: ProposedEdit = {
+    id: 'p2',
+    entryId: 'b',
+    changes: { startTime: '07:30', endTime: '10:00' },
+    annotation: 'Detention at the shipper ran long',
+    proposedBy: 'Dispatch',
+    proposedAt: '2026-02-03T09:00:00Z',
+    status: 'pending',
+  };
+
+  it('trims the records a changed entry now overlaps', () => {
+    const result = applyProposal(log, proposal, editedAt)!;
+
+    expect(result.logs.map((e) => [e.startTime, e.endTime, e.status, e.recordOrigin])).toEqual([
+      ['00:00', '07:30', 'off-duty', 'carrier'],
+      ['07:30', '10:00', 'on-duty-not-driving', 'carrier'],
+      ['10:00', '24:00', 'off-duty', 'carrier'],
+    ]);
+    expect(result.logs.every((e) => e.annotation === proposal.annotation)).toBe(true);
+    expect(trimmedByProposal(log, result, proposal).map((e) => e.id)).toEqual(['a', 'c']);
+    expect(result.inactiveLogs?.every((e) => e.recordStatus === 'inactive-changed')).toBe(true);
+  });
+
+  it('returns null once the entry has been replaced', () => {
+    expect(applyProposal(log, { ...proposal, entryId: 'gone' }, editedAt)).toBeNull();
+  });
+});
+
+describe('applyProposal for an added record', () => {
+  const proposal: ProposedEdit = {
+    id: 'p3',
+    date: DATE,
+    changes: { status: 'on-duty-not-driving', startTime: '06:30', endTime: '07:15', notes: 'Pre-trip inspection' },
+    annotation: 'Pre-trip inspection was not logged',
+    proposedBy: 'Dispatch',
+    proposedAt: '2026-02-03T09:00:00Z',
+    status: 'pending',
+  };
+
+  it('adds the missed period and splits the record it falls inside', () => {
+    const result = applyProposal(log, proposal, editedAt)!;
+    const added = proposedEntry(result, editedAt)!;
+
+    expect(result.logs.map((e) => [e.startTime, e.endTime, e.status])).toEqual([
+      ['00:00', '06:30', 'off-duty'],
+      ['06:30', '07:15', 'on-duty-not-driving'],
+      ['07:15', '08:00', 'off-duty'],
+      ['08:00', '09:00', 'on-duty-not-driving'],
+      ['09:00', '24:00', 'off-duty'],
+    ]);
+    expect(added.supersedes).toBeUndefined();
+    expect(added.duration).toBeCloseTo(0.75);
+    expect(added.recordOrigin).toBe('carrier');
+    expect(trimmedByProposal(log, result, proposal).map((e) => e.id)).toEqual(['a']);
+    expect(result.changedAt).toBe(editedAt.toISOString());
+  });
+
+  it('is kept as a rejected inactive record when the driver declines it', () => {
+    const result = recordRejectedEdit(log, proposal, editedAt);
+
+    expect(result.logs).toBe(log.logs);
+    expect(result.inactiveLogs?.map((e) => [e.id, e.recordStatus, e.startTime])).toEqual([
+      ['proposal-p3', 'inactive-change-rejected', '06:30'],
+    ]);
+  });
+
+  it('cannot be applied without a status and times', () => {
+    expect(applyProposal(log, { ...proposal, changes: { status: 'on-duty-not-driving' } }, editedAt)).toBeNull();
+  });
+});
+
+describe('saveEditedLogs', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  it('restores the edited records and the inactive originals after a reload', () => {
+    const edited = applyEdit(log, 'b', { endTime: '08:30' }, 'Loading finished early', editedAt)!;
+    saveEditedLogs([edited]);
+
+    // The backend only returns the original records
+    const [reloaded] = withEditedLogs([log], loadEditedLogs());
+    expect(reloaded.logs.find((e) => e.startTime === '08:00')?.endTime).toBe('08:30');
+    expect(reloaded.inactiveLogs?.map((e) => [e.id, e.recordStatus])).toEqual([['b', 'inactive-changed']]);
+  });
+
+  it('keeps the stored edits of days that have not been loaded yet', () => {
+    saveEditedLogs([applyEdit(log, 'b', { endTime: '08:30' }, 'Loading finished early', editedAt)!]);
+    saveEditedLogs([{ ...log, date: '2026-02-03' }]);
+
+    expect(loadEditedLogs().map((e) => e.date)).toEqual([DATE]);
+  });
+});
@@ -0,0 +1,323 @@
+import type { ELDEntry, ELDLog, RecordOrigin } from '../contexts/TripContext';
+import { entryToPeriod, startOfDay, SPECIAL_CATEGORIES } from './hos';
+
+// Edits to recorded duty status (49 CFR 395.30). The original record is kept as an inactive record
+// and the edited version, carrying the annotation, takes its place in the log.
+
+export type EditableField = 'status' | 'startTime' | 'endTime' | 'location' | 'notes';
+
+export type EntryChanges = Partial<Pick<ELDEntry, EditableField>>;
+
+export const MIN_ANNOTATION_LENGTH = 4;
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  status: 'Status',
+  startTime: 'Start time',
+  endTime: 'End time',
+  location: 'Location',
+  notes: 'Notes',
+};
+
+const EDITABLE_FIELDS = Object.keys(EDITABLE_FIELD_LABELS) as EditableField[];
+
+export interface FieldChange {
+  field: EditableField;
+  from: string;
+  to: string;
+}
+
+export function diffEntries(before: ELDEntry, after: ELDEntry): FieldChange[] {
+  return EDITABLE_FIELDS.filter((field) => (before[field] || '') !== (after[field] || '')).map((field) => ({
+    field,
+    from: before[field] || '',
+    to: after[field] || '',
+  }));
+}
+
+// An edit back-office staff proposed to the driver's log; it only takes effect once the driver accepts
+// it on their device. Without an entryId it adds a record, such as a missed on-duty period.
+export interface ProposedEdit {
+  id: string;
+  entryId?: string; // the entry to change
+  date?: string; // the day a record is added to
+  changes: EntryChanges; // for an added record: its status, times, location and notes
+  annotation: string; // the carrier's reason for the change
+  proposedBy: string;
+  proposedAt: string; // ISO timestamp
+  status: 'pending' | 'accepted' | 'rejected';
+  decidedAt?: string; // ISO timestamp
+  rejectionReason?: string;
+}
+
+export const loadProposedEdits = (): ProposedEdit[] => {
+  const raw = localStorage.getItem('tl_proposed_edits');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProposedEdits = (edits: ProposedEdit[]) => {
+  localStorage.setItem('tl_proposed_edits', JSON.stringify(edits));
+};
+
+// Edited days are kept on the device; the backend's activity list only holds the active records, so
+// the preserved originals, and the change time a certification is checked against, would otherwise be
+// lost on reload
+type EditedLog = Pick<ELDLog, 'date' | 'logs' | 'inactiveLogs' | 'changedAt'>;
+
+export const loadEditedLogs = (): EditedLog[] => {
+  const raw = localStorage.getItem('tl_edited_logs');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Days not loaded yet keep their stored edits
+export const saveEditedLogs = (logs: ELDLog[]) => {
+  const edited: EditedLog[] = [
+    ...loadEditedLogs().filter((e) => !logs.some((log) => log.date === e.date)),
+    ...logs
+      .filter((log) => (log.inactiveLogs || []).length > 0 || log.changedAt)
+      .map(({ date, logs: active, inactiveLogs, changedAt }) => ({ date, logs: active, inactiveLogs, changedAt })),
+  ];
+  try {
+    localStorage.setItem('tl_edited_logs', JSON.stringify(edited));
+  } catch {
+    // storage full; the edits were sent to the backend
+  }
+};
+
+// Lay the stored edited days over logs loaded from the backend
+export const withEditedLogs = (logs: ELDLog[], edited: EditedLog[]): ELDLog[] =>
+  logs.map((log) => {
+    const stored = edited.find((e) => e.date === log.date);
+    return stored ? { ...log, ...stored } : log;
+  });
+
+const editedEntry = (original: ELDEntry, changes: EntryChanges, annotation: string, editedAt: Date, date: string): ELDEntry => {
+  const edited: ELDEntry = {
+    ...original,
+    ...changes,
+    id: `edit-${editedAt.getTime()}`,
+    supersedes: original.id,
+    annotation: annotation.trim(),
+    editedAt: editedAt.toISOString(),
+  };
+  // A personal conveyance or yard move edited to another duty status is no longer that category
+  if (edited.specialCategory && edited.status !== SPECIAL_CATEGORIES[edited.specialCategory].status) {
+    delete edited.specialCategory;
+  }
+  const period = entryToPeriod(date, edited);
+  edited.duration = (period.end - period.start) / 3600000;
+  return edited;
+};
+
+// Replace an entry with its edited version; null when the entry is not in the log
+export function applyEdit(
+  log: ELDLog,
+  entryId: string,
+  changes: EntryChanges,
+  annotation: string,
+  editedAt: Date,
+  origin: RecordOrigin = 'driver',
+): ELDLog | null {
+  const original = log.logs.find((e) => e.id === entryId);
+  if (!original) return null;
+
+  const edited: ELDEntry = {
+    ...editedEntry(original, changes, annotation, editedAt, log.date),
+    recordStatus: 'active',
+    recordOrigin: origin,
+  };
+
+  return {
+    ...log,
+    logs: log.logs.map((e) => (e.id === entryId ? edited : e)).sort((x, y) => x.startTime.localeCompare(y.startTime)),
+    inactiveLogs: [...(log.inactiveLogs || []), { ...original, recordStatus: 'inactive-changed' }],
+    changedAt: editedAt.toISOString(),
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+// HH:MM clock reading of a time on the log's day (times past midnight wrap, like entry end times)
+const clockOnDay = (date: string, ms: number): string => {
+  const minutes = (((Math.round((ms - startOfDay(date)) / MINUTE)) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Make room in a log for a record covering [start, end) (epoch ms): active records that overlap it are
+// trimmed, split around it or, when covered entirely, made inactive. Each original is kept as an
+// inactive record; the log is returned as is when nothing overlaps.
+export function clearPeriod(
+  log: ELDLog,
+  start: number,
+  end: number,
+  annotation: string,
+  editedAt: Date,
+  origin: RecordOrigin = 'driver',
+): ELDLog {
+  const overlapping = log.logs.filter((e) => {
+    const period = entryToPeriod(log.date, e);
+    return period.start < end && period.end > start;
+  });
+  if (overlapping.length === 0) return log;
+
+  const pieces = overlapping.flatMap((original) => {
+    const period = entryToPeriod(log.date, original);
+    const kept: EntryChanges[] = [];
+    if (start - period.start >= MINUTE) kept.push({ endTime: clockOnDay(log.date, start) });
+    if (period.end - end >= MINUTE) kept.push({ startTime: clockOnDay(log.date, end) });
+    return kept.map((changes, idx): ELDEntry => ({
+      ...editedEntry(original, changes, annotation, editedAt, log.date),
+      id: `edit-${editedAt.getTime()}-${original.id}-${idx}`,
+      recordStatus: 'active',
+      recordOrigin: origin,
+    }));
+  });
+
+  return {
+    ...log,
+    logs: [...log.logs.filter((e) => !overlapping.includes(e)), ...pieces].sort((x, y) =>
+      x.startTime.localeCompare(y.startTime),
+    ),
+    inactiveLogs: [
+      ...(log.inactiveLogs || []),
+      ...overlapping.map((e): ELDEntry => ({ ...e, recordStatus: 'inactive-changed' })),
+    ],
+    changedAt: editedAt.toISOString(),
+  };
+}
+
+// The day's log a proposal applies to
+export const proposalLog = (logs: ELDLog[], proposal: ProposedEdit): ELDLog | undefined =>
+  proposal.entryId ? logForEntry(logs, proposal.entryId) : logs.find((log) => log.date === proposal.date);
+
+// The record a proposal adds; null when it lacks a status or times. Odometer and engine hours are
+// carried over from the record it starts in.
+const addedEntry = (log: ELDLog, proposal: ProposedEdit, decidedAt: Date): ELDEntry | null => {
+  const { status, startTime, endTime, location, notes } = proposal.changes;
+  if (!status || !startTime || !endTime) return null;
+  const previous = [...log.logs].reverse().find((e) => e.startTime <= startTime) ?? log.logs[0];
+  const added: ELDEntry = {
+    id: `edit-${decidedAt.getTime()}`,
+    status,
+    startTime,
+    endTime,
+    location: location || '',
+    notes: notes || undefined,
+    duration: 0,
+    odometer: previous?.odometer ?? 0,
+    engineHours: previous?.engineHours ?? 0,
+    recordStatus: 'active',
+    recordOrigin: 'carrier',
+    annotation: proposal.annotation.trim(),
+    editedAt: decidedAt.toISOString(),
+  };
+  const period = entryToPeriod(log.date, added);
+  added.duration = (period.end - period.start) / 3600000;
+  return added;
+};
+
+// Apply an accepted carrier proposal. The other records it overlaps are trimmed to make room, the way
+// claimed driving is, so no two active records cover the same minutes; null when the entry is gone.
+export function applyProposal(log: ELDLog, proposal: ProposedEdit, decidedAt: Date): ELDLog | null {
+  let base: ELDLog;
+  let entry: ELDEntry | null | undefined;
+  if (proposal.entryId) {
+    const edited = applyEdit(log, proposal.entryId, proposal.changes, proposal.annotation, decidedAt, 'carrier');
+    entry = edited?.logs.find((e) => e.supersedes === proposal.entryId && e.recordOrigin === 'carrier');
+    if (!edited || !entry) return null;
+    base = { ...edited, logs: edited.logs.filter((e) => e !== entry) };
+  } else {
+    entry = addedEntry(log, proposal, decidedAt);
+    if (!entry) return null;
+    base = { ...log, changedAt: decidedAt.toISOString() };
+  }
+  const period = entryToPeriod(log.date, entry);
+  const others = clearPeriod(
+    base,
+    period.start,
+    period.end,
+    proposal.annotation,
+    decidedAt,
+    'carrier',
+  );
+  return { ...others, logs: [...others.logs, entry].sort((x, y) => x.startTime.localeCompare(y.startTime)) };
+}
+
+// The record a proposal added or changed in the log applyProposal returned for the same decision time
+export const proposedEntry = (after: ELDLog, decidedAt: Date): ELDEntry | undefined =>
+  after.logs.find((e) => e.id === `edit-${decidedAt.getTime()}`);
+
+// Records a proposal would make inactive besides the one it changes
+export const trimmedByProposal = (log: ELDLog, after: ELDLog, proposal: ProposedEdit): ELDEntry[] =>
+  (after.inactiveLogs || []).filter(
+    (e) => e.id !== proposal.entryId && !(log.inactiveLogs || []).some((kept) => kept.id === e.id),
+  );
+
+// Keep a rejected proposal as an inactive record; the log itself is left as it was
+export function recordRejectedEdit(log: ELDLog, proposal: ProposedEdit, decidedAt: Date): ELDLog {
+  let proposed: ELDEntry | null = null;
+  if (!proposal.entryId) {
+    proposed = addedEntry(log, proposal, decidedAt);
+  } else {
+    const original = log.logs.find((e) => e.id === proposal.entryId);
+    if (original) proposed = editedEntry(original, proposal.changes, proposal.annotation, decidedAt, log.date);
+  }
+  if (!proposed) return log;
+  const rejected: ELDEntry = {
+    ...proposed,
+    id: `proposal-${proposal.id}`,
+    recordStatus: 'inactive-change-rejected',
+    recordOrigin: 'carrier',
+  };
+  return { ...log, inactiveLogs: [...(log.inactiveLogs || []), rejected] };
+}
+
+// Other active records in the log that an entry would overlap with the given times
+export function overlappingEntries(log: ELDLog, entry: ELDEntry, times: Pick<ELDEntry, 'startTime' | 'endTime'>): ELDEntry[] {
+  const period = entryToPeriod(log.date, { ...entry, ...times });
+  return log.logs.filter((e) => {
+    if (e.id === entry.id) return false;
+    const other = entryToPeriod(log.date, e);
+    return other.start < period.end && other.end > period.start;
+  });
+}
+
+// Carrier proposals rejected for any version of an entry; each supersedes the version it was proposed against
+export function rejectedProposals(log: ELDLog, entry: ELDEntry): ELDEntry[] {
+  const ids = new Set(entryVersions(log, entry).map((v) => v.id));
+  return (log.inactiveLogs || []).filter(
+    (e) => e.recordStatus === 'inactive-change-rejected' && !!e.supersedes && ids.has(e.supersedes),
+  );
+}
+
+// Find the log holding an active entry
+export const logForEntry = (logs: ELDLog[], entryId: string): ELDLog | undefined =>
+  logs.find((log) => log.logs.some((e) => e.id === entryId));
+
+// The record an edit chain started from; local edits get new ids the backend has never seen
+export function originalRecordId(log: ELDLog, entryId: string): string {
+  const entry = log.logs.find((e) => e.id === entryId);
+  return entry ? entryVersions(log, entry)[0].id : entryId;
+}
+
+// Every version of an entry, oldest first, following each edit back to the record it replaced
+export function entryVersions(log: ELDLog, entry: ELDEntry): ELDEntry[] {
+  const versions = [entry];
+  let current = entry;
+  while (current.supersedes) {
+    const previous = log.inactiveLogs?.find((e) => e.id === current.supersedes);
+    if (!previous) break;
+    versions.unshift(previous);
+    current = previous;
+  }
+  return versions;
+}
@@ -0,0 +1,56 @@
+import type { Map as MaplibreMap, StyleSpecification } from 'maplibre-gl';
+
+// Base map style for the MapLibre maps. VITE_MAP_STYLE picks the source; without it a self-hosted
+// style (VITE_MAP_STYLE_URL) wins over MapTiler (VITE_MAPTILER_API_KEY), and with neither configured
+// the built-in offline style is used so route lines and markers still render.
+
+export type MapStyleSource = 'maptiler' | 'custom' | 'offline';
+
+export interface MapStyle {
+  source: MapStyleSource;
+  style: string | StyleSpecification;
+}
+
+// No tiles, fonts or sprites: a plain background the app draws routes and markers on
+export const OFFLINE_STYLE: StyleSpecification = {
+  version: 8,
+  name: 'Offline',
+  sources: {},
+  layers: [{ id: 'background', type: 'background', paint: { 'background-color': '#eef2f6' } }],
+};
+
+export const OFFLINE_MAP_STYLE: MapStyle = { source: 'offline', style: OFFLINE_STYLE };
+
+export function getMapStyle(): MapStyle {
+  const customUrl = import.meta.env.VITE_MAP_STYLE_URL || '';
+  const maptilerKey = import.meta.env.VITE_MAPTILER_API_KEY || '';
+  const maptiler: MapStyle | null = maptilerKey
+    ? {
+        source: 'maptiler',
+        style: `https://api.maptiler.com/maps/${import.meta.env.VITE_MAPTILER_MAP || 'streets-v4'}/style.json?key=${maptilerKey}`,
+      }
+    : null;
+  const custom: MapStyle | null = customUrl ? { source: 'custom', style: customUrl } : null;
+
+  switch (import.meta.env.VITE_MAP_STYLE as MapStyleSource | undefined) {
+    case 'offline':
+      return OFFLINE_MAP_STYLE;
+    case 'maptiler':
+      return maptiler || OFFLINE_MAP_STYLE;
+    case 'custom':
+      return custom || OFFLINE_MAP_STYLE;
+    default:
+      return custom || maptiler || OFFLINE_MAP_STYLE;
+  }
+}
+
+// Swap to the offline style if the configured one cannot be loaded (bad key, unreachable server)
+export function fallBackToOfflineStyle(map: MaplibreMap, onFallback?: () => void) {
+  let fellBack = false;
+  map.on('error', () => {
+    if (fellBack || map.isStyleLoaded()) return;
+    fellBack = true;
+    map.setStyle(OFFLINE_STYLE);
+    onFallback?.();
+  });
+}
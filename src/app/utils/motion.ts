@@ -0,0 +1,61 @@
+import { haversineMiles } from './geo';
+
+// Vehicle movement used for automatic driving detection. A telemetry source (engine bus, fleet
+// gateway) takes precedence when one is registered; otherwise speed comes from the geolocation API.
+
+export interface MotionSample {
+  speed: number; // mph
+  at: number; // epoch ms
+  lat?: number;
+  lon?: number;
+}
+
+export interface MotionSource {
+  name: string;
+  subscribe: (listener: (sample: MotionSample) => void) => () => void; // returns an unsubscribe function
+}
+
+export const DRIVING_SPEED_MPH = 5; // moving faster than this is driving
+export const STATIONARY_PROMPT_MS = 5 * 60 * 1000; // stopped this long while driving -> ask for a new status
+export const PROMPT_TIMEOUT_MS = 60 * 1000; // unanswered prompt -> on duty
+
+const MPS_TO_MPH = 2.236936;
+const MIN_SPEED_INTERVAL_MS = 5000; // shortest gap to derive speed from two fixes
+
+let telemetrySource: MotionSource | null = null;
+
+export function registerTelemetrySource(source: MotionSource | null) {
+  telemetrySource = source;
+}
+
+// Uses the device's reported speed, or derives it from consecutive fixes when the device does not report one
+export const geolocationMotionSource: MotionSource = {
+  name: 'GPS',
+  subscribe: (listener) => {
+    let last: MotionSample | null = null;
+    const watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        const { latitude: lat, longitude: lon, speed } = pos.coords;
+        const at = pos.timestamp || Date.now();
+        let mph: number | null = speed !== null && speed >= 0 ? speed * MPS_TO_MPH : null;
+        if (mph === null && last && last.lat !== undefined && last.lon !== undefined) {
+          const elapsed = at - last.at;
+          if (elapsed < MIN_SPEED_INTERVAL_MS) return;
+          mph = haversineMiles(last.lat, last.lon, lat, lon) / (elapsed / 3600000);
+        }
+        last = { speed: mph ?? 0, at, lat, lon };
+        if (mph !== null) listener(last);
+      },
+      () => {
+        // no fix; detection resumes with the next one
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 },
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+};
+
+export function getMotionSource(): MotionSource | null {
+  if (telemetrySource) return telemetrySource;
+  return 'geolocation' in navigator ? geolocationMotionSource : null;
+}
@@ -0,0 +1,20 @@
+// Thin wrapper around the browser Notification API; every call is a no-op where it is unsupported
+
+export function requestNotificationPermission() {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {
+      // ignore; toasts are still shown
+    });
+  }
+}
+
+export function showNotification(title: string, body: string) {
+  if (typeof window === 'undefined' || !('Notification' in window)) return;
+  if (Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag: title });
+  } catch {
+    // some mobile browsers only allow notifications from a service worker
+  }
+}
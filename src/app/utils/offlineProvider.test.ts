@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createOfflineProvider } from './offlineProvider';
+import { haversineMiles } from './geo';
+import { CITIES, cityLabel } from './cities';
+import { truckRouting, DEFAULT_TRUCK } from './truck';
+
+const provider = createOfflineProvider();
+
+const city = (label: string) => CITIES.find((c) => cityLabel(c) === label)!;
+
+const truck = truckRouting(DEFAULT_TRUCK);
+
+describe('offline provider', () => {
+  it('suggests cities whose name starts with the query before ones that only contain it', async () => {
+    const labels = (await provider.autocomplete('or')).map((s) => s.label);
+
+    expect(labels[0]).toBe('Orlando, FL');
+    expect(labels).toContain('Portland, OR');
+    expect(await provider.autocomplete('  ')).toEqual([]);
+  });
+
+  it('names the nearest bundled city for a position', async () => {
+    expect(await provider.reverseGeocode(43.7, -79.4)).toBe('Toronto, ON');
+    expect(await provider.reverseGeocode(41.95, -87.7)).toBe('Chicago, IL');
+  });
+
+  it('estimates each leg of a multi-stop route from the great-circle distance', async () => {
+    const stops = ['Chicago, IL', 'Detroit, MI', 'Toronto, ON'].map(city);
+    const [route] = await provider.route({ waypoints: stops, truck, alternatives: 3 });
+
+    const direct = [
+      haversineMiles(stops[0].lat, stops[0].lon, stops[1].lat, stops[1].lon),
+      haversineMiles(stops[1].lat, stops[1].lon, stops[2].lat, stops[2].lon),
+    ];
+    expect(route.legs).toHaveLength(2);
+    route.legs.forEach((leg, idx) => {
+      expect(leg.distance).toBeCloseTo(direct[idx] * 1.2);
+      expect(leg.duration).toBeCloseTo(leg.distance / 55);
+    });
+    expect(route.distance).toBeCloseTo(route.legs[0].distance + route.legs[1].distance);
+    expect(route.coords[0]).toEqual([stops[0].lon, stops[0].lat]);
+    expect(route.coords[route.coords.length - 1][0]).toBeCloseTo(stops[2].lon);
+    expect(route.coords[route.coords.length - 1][1]).toBeCloseTo(stops[2].lat);
+  });
+
+  it('draws long routes along the great circle rather than a straight line on the map', async () => {
+    const stops = ['Seattle, WA', 'Boston, MA'].map(city);
+    const [route] = await provider.route({ waypoints: stops, truck, alternatives: 1 });
+    const middle = route.coords[Math.floor(route.coords.length / 2)];
+
+    // The great circle between them bows north of the average latitude
+    expect(middle[1]).toBeGreaterThan((stops[0].lat + stops[1].lat) / 2 + 2);
+  });
+
+  it('needs at least two stops to route', async () => {
+    expect(await provider.route({ waypoints: [city('Chicago, IL')], truck, alternatives: 1 })).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { GeoProvider, Suggestion } from './geocode';
+import { CITIES, City, cityLabel } from './cities';
+import { greatCirclePoint, haversineMiles } from './geo';
+
+// Works without network access or API keys: places come from the bundled city list and routes follow
+// the great circle between stops, lengthened by a typical road-to-crow-flies ratio.
+
+const ROAD_FACTOR = 1.2;
+const AVERAGE_SPEED_MPH = 55;
+const POINT_SPACING_MILES = 25; // so border crossings and stop markers land close to where they belong
+
+const toSuggestion = (city: City): Suggestion => ({ label: cityLabel(city), lat: city.lat, lon: city.lon });
+
+const matchCities = (query: string, limit: number): Suggestion[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  // Cities whose name starts with the query come before ones that only contain it
+  const matches = CITIES.filter((c) => cityLabel(c).toLowerCase().includes(q));
+  matches.sort((a, b) => Number(!a.name.toLowerCase().startsWith(q)) - Number(!b.name.toLowerCase().startsWith(q)));
+  return matches.slice(0, limit).map(toSuggestion);
+};
+
+export function createOfflineProvider(): GeoProvider {
+  return {
+    id: 'offline',
+    name: 'Offline estimate',
+    truckRouting: false,
+    truckDimensions: [],
+
+    autocomplete: async (query) => matchCities(query, 6),
+
+    geocode: async (query) => matchCities(query, 1)[0] || null,
+
+    reverseGeocode: async (lat, lon) => {
+      let nearest: City | null = null;
+      let best = Infinity;
+      for (const city of CITIES) {
+        const d = haversineMiles(lat, lon, city.lat, city.lon);
+        if (d < best) {
+          best = d;
+          nearest = city;
+        }
+      }
+      return nearest ? cityLabel(nearest) : null;
+    },
+
+    route: async ({ waypoints }) => {
+      if (waypoints.length < 2) return [];
+      const coords: Array<[number, number]> = [[waypoints[0].lon, waypoints[0].lat]];
+      const legs = waypoints.slice(1).map((to, idx) => {
+        const from = waypoints[idx];
+        const direct = haversineMiles(from.lat, from.lon, to.lat, to.lon);
+        const steps = Math.max(1, Math.ceil(direct / POINT_SPACING_MILES));
+        for (let i = 1; i <= steps; i++) {
+          coords.push(greatCirclePoint(from.lat, from.lon, to.lat, to.lon, i / steps));
+        }
+        const distance = direct * ROAD_FACTOR;
+        return { distance, duration: distance / AVERAGE_SPEED_MPH };
+      });
+      return [
+        {
+          id: 'offline-0',
+          label: 'Estimated',
+          distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+          duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+          tollMiles: 0,
+          coords,
+          legs,
+        },
+      ];
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { GeoProvider, RouteResult } from './geocode';
+import { METERS_PER_MILE, uniqueSuggestions } from './geocode';
+
+// Nominatim for geocoding and OSRM for routing, against the public servers or self-hosted ones.
+// OSRM's driving profile is a car profile, so routes do not honor the truck profile.
+
+export function createOsrmProvider(nominatimUrl: string, osrmUrl: string): GeoProvider {
+  const search = async (query: string, limit: number) => {
+    if (!query || query.trim().length === 0) return [];
+    try {
+      const res = await fetch(
+        `${nominatimUrl}/search?format=jsonv2&countrycodes=us,ca&limit=${limit}&q=${encodeURIComponent(query)}`,
+      );
+      if (!res.ok) return [];
+      const json = await res.json();
+      const items = (Array.isArray(json) ? json : []).map((r: any) => ({
+        label: r.display_name,
+        lat: parseFloat(r.lat),
+        lon: parseFloat(r.lon),
+      }));
+      return uniqueSuggestions(items, limit);
+    } catch (e) {
+      return [];
+    }
+  };
+
+  return {
+    id: 'osrm',
+    name: 'OpenStreetMap (Nominatim/OSRM)',
+    truckRouting: false,
+    truckDimensions: [],
+
+    autocomplete: (query) => search(query, 6),
+
+    geocode: async (query) => {
+      const [first] = await search(query, 1);
+      return first || null;
+    },
+
+    reverseGeocode: async (lat, lon) => {
+      try {
+        const res = await fetch(`${nominatimUrl}/reverse?format=jsonv2&zoom=10&addressdetails=1&lat=${lat}&lon=${lon}`);
+        if (!res.ok) return null;
+        const address = (await res.json())?.address || {};
+        const city = address.city || address.town || address.village || address.hamlet || address.county;
+        if (!city) return null;
+        // "US-CA" -> "CA"
+        const state = String(address['ISO3166-2-lvl4'] || '').split('-')[1];
+        return state ? `${city}, ${state}` : city;
+      } catch (e) {
+        return null;
+      }
+    },
+
+    route: async ({ waypoints, alternatives }) => {
+      const points = waypoints.map((w) => `${w.lon},${w.lat}`).join(';');
+      try {
+        const res = await fetch(
+          `${osrmUrl}/route/v1/driving/${points}?overview=full&geometries=geojson&steps=true&alternatives=${alternatives > 1}`,
+        );
+        if (!res.ok) return [];
+        const json = await res.json();
+        return (json?.routes || []).slice(0, alternatives).map((route: any, idx: number): RouteResult => {
+          const rawLegs: any[] = route.legs || [];
+          // Steps on tolled roads carry a 'toll' intersection class
+          const tollMeters = rawLegs
+            .flatMap((leg: any) => leg.steps || [])
+            .filter((step: any) => (step.intersections || []).some((i: any) => (i.classes || []).includes('toll')))
+            .reduce((sum: number, step: any) => sum + (step.distance || 0), 0);
+          return {
+            id: `osrm-${idx}`,
+            label: idx === 0 ? 'Fastest' : `Alternative ${idx + 1}`,
+            distance: (route.distance || 0) / METERS_PER_MILE,
+            duration: (route.duration || 0) / 3600,
+            tollMiles: tollMeters / METERS_PER_MILE,
+            coords: route.geometry?.coordinates || [],
+            legs: rawLegs.map((leg: any) => ({
+              distance: (leg.distance || 0) / METERS_PER_MILE,
+              duration: (leg.duration || 0) / 3600,
+            })),
+          };
+        });
+      } catch (e) {
+        return [];
+      }
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { clockToTime, evaluateHos, DutyPeriod } from './hos';
+import { getRuleSet } from './hosRules';
+import { planTrip, projectLogs, PlanInput } from './tripPlanner';
+import type { BorderCrossing } from './geo';
+
+const departure = new Date('2026-02-02T06:00:00');
+const usProperty = getRuleSet('us-property-70');
+
+// 600 miles at 50 mph: 12 hours of driving between a pickup and a drop-off
+const trip = (crossings: BorderCrossing[] = []): PlanInput => ({
+  stops: [
+    { type: 'pickup', location: 'Detroit, MI' },
+    { type: 'dropoff', location: 'Quebec City, QC' },
+  ],
+  legs: [{ distance: 600, duration: 12 }],
+  hos: evaluateHos([], departure, usProperty),
+  departure,
+  homeRules: usProperty,
+  crossings,
+});
+
+const intoCanada: BorderCrossing = { lat: 42.32, lon: -83.04, distance: 60, fraction: 0.1, jurisdiction: 'CA' };
+
+describe('planTrip', () => {
+  it('rests once the 11-hour limit is reached under US rules', () => {
+    const plan = planTrip(trip());
+
+    expect(plan.switches).toEqual([]);
+    expect(plan.breaks).toBe(1);
+    expect(plan.rests).toBe(1);
+  });
+
+  it('schedules the miles past a border crossing under the other country\'s rules', () => {
+    const plan = planTrip(trip([intoCanada]));
+
+    // 12 hours fit inside Canada's 13-hour driving and 14-hour on-duty limits, with no 30-minute break
+    expect(plan.switches).toHaveLength(1);
+    expect(plan.switches[0].jurisdiction).toBe('CA');
+    expect(plan.switches[0].at).toBe(departure.getTime() + (1 + 1.2) * 60 * 60 * 1000);
+    expect(plan.breaks).toBe(0);
+    expect(plan.rests).toBe(0);
+    expect(plan.totalMiles).toBeCloseTo(600);
+  });
+});
+
+describe('projectLogs', () => {
+  it('starts the first sheet with what the driver recorded before departure', () => {
+    const leaving = new Date('2026-02-02T09:00:00');
+    const recorded: DutyPeriod[] = [
+      { status: 'sleeper-berth', start: clockToTime('2026-02-01', '22:00'), end: clockToTime('2026-02-02', '06:00') },
+      { status: 'on-duty-not-driving', start: clockToTime('2026-02-02', '07:00'), end: clockToTime('2026-02-02', '07:45') },
+      { status: 'driving', start: clockToTime('2026-02-02', '07:45'), end: clockToTime('2026-02-02', '08:30') },
+    ];
+    const plan = planTrip({ ...trip(), departure: leaving, hos: evaluateHos(recorded, leaving, usProperty) });
+    const [first] = projectLogs(plan, { driverId: '1', history: recorded });
+
+    expect(first.date).toBe('2026-02-02');
+    expect(first.logs.slice(0, 5).map((e) => [e.startTime, e.endTime, e.status])).toEqual([
+      ['00:00', '06:00', 'sleeper-berth'],
+      ['06:00', '07:00', 'off-duty'],
+      ['07:00', '07:45', 'on-duty-not-driving'],
+      ['07:45', '08:30', 'driving'],
+      ['08:30', '09:00', 'off-duty'],
+    ]);
+    expect(first.logs[5].startTime).toBe('09:00');
+  });
+
+  it('pads the first sheet with off-duty time when nothing was recorded', () => {
+    const [first] = projectLogs(planTrip(trip()), { driverId: '1' });
+
+    expect([first.logs[0].startTime, first.logs[0].endTime, first.logs[0].status]).toEqual(['00:00', '06:00', 'off-duty']);
+  });
+});
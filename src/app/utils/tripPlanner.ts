@@ -0,0 +1,395 @@
+import type { ELDEntry, ELDLog } from '../contexts/TripContext';
+import { startOfDay, toDateKey, DutyPeriod, DutyStatus, HosStatus, RuleSwitch } from './hos';
+import { ruleSetForJurisdiction, HosRuleSet } from './hosRules';
+import type { BorderCrossing } from './geo';
+
+// Builds a legal itinerary for a trip from the driver's current HOS state: drive time is cut into
+// segments wherever a 30-minute break, a 10-hour rest, a cycle restart or a fuel stop is due.
+// Past a border crossing the plan is scheduled under the rules of the country entered.
+
+export type PlanStopType = 'pickup' | 'dropoff' | 'fuel' | 'break' | 'rest' | 'restart';
+
+export interface PlanSegment {
+  type: 'drive' | PlanStopType;
+  status: DutyStatus;
+  start: number; // epoch ms
+  end: number; // epoch ms
+  mile: number; // route mile at the start of the segment
+  miles: number; // miles covered during the segment (drive segments only)
+  reason?: string; // why the stop was scheduled
+  location?: string; // pickup and drop-off segments only
+  stop?: number; // index of the trip stop a pickup or drop-off segment serves
+}
+
+export interface TripPlan {
+  segments: PlanSegment[];
+  departure: number;
+  arrival: number;
+  totalMiles: number;
+  drivingHours: number;
+  onDutyHours: number; // everything that counts toward the cycle
+  breaks: number;
+  rests: number;
+  fuelStops: number;
+  switches: RuleSwitch[]; // when the plan crosses into another jurisdiction
+}
+
+export interface PlanLeg {
+  distance: number; // miles
+  duration: number; // driving hours
+}
+
+export interface PlanStop {
+  type: 'pickup' | 'dropoff';
+  location: string;
+}
+
+export interface PlanInput {
+  stops: PlanStop[]; // in order; one more than there are legs
+  legs: PlanLeg[]; // route between consecutive stops
+  hos: HosStatus; // driver's state at departure
+  departure?: Date;
+  crossings?: BorderCrossing[]; // along the whole route, in order
+  homeRules?: HosRuleSet; // the driver's own rule set; defaults to the rules in force at departure
+}
+
+export const STOP_HOURS = 1; // each pickup and drop-off
+export const FUEL_INTERVAL_MILES = 1000;
+export const FUEL_STOP_HOURS = 0.5;
+
+export interface ProjectionOptions {
+  driverId: string;
+  startOdometer?: number;
+  history?: DutyPeriod[]; // the driver's recorded duty; fills the first day up to departure
+}
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+const EPSILON = 1e-6;
+
+export function planTrip({ stops, legs, hos, departure = new Date(), crossings = [], homeRules = hos.rules }: PlanInput): TripPlan {
+  let rules = hos.rules;
+  const segments: PlanSegment[] = [];
+  const switches: RuleSwitch[] = [];
+  // Crossings by route mile; their fraction of the route is scaled to the planned distance
+  const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const pending = crossings.map((c) => ({ mile: c.fraction * totalDistance, jurisdiction: c.jurisdiction }));
+
+  let time = departure.getTime();
+  let mile = 0;
+  let driveLeft = hos.driving.remaining;
+  let windowLeft = hos.window.remaining;
+  let onDutyLeft = hos.onDuty ? hos.onDuty.remaining : Infinity;
+  let breakLeft = hos.break ? hos.break.remaining : Infinity;
+  let cycleLeft = hos.cycle.remaining;
+  // Tracked so a new rule set's on-duty cap and break requirement can be applied after a crossing;
+  // without those clocks, the window and shift driving are upper bounds
+  let shiftOnDuty = hos.onDuty ? hos.onDuty.used : hos.window.used;
+  let sinceBreak = hos.break ? hos.break.used : hos.driving.used;
+  let sinceFuel = 0;
+  // An elapsed window keeps running through breaks once the shift has started
+  let shiftStarted = hos.shiftStart !== null;
+
+  const push = (
+    type: PlanSegment['type'],
+    status: DutyStatus,
+    hours: number,
+    extra: Partial<Pick<PlanSegment, 'miles' | 'reason' | 'location' | 'stop'>> = {},
+  ) => {
+    const start = time;
+    const miles = extra.miles ?? 0;
+    time += hours * HOUR;
+    segments.push({ ...extra, type, status, start, end: time, mile, miles });
+    mile += miles;
+  };
+
+  const takeBreak = () => {
+    breakLeft = rules.drivingBeforeBreak ?? Infinity;
+    sinceBreak = 0;
+  };
+
+  const spendOffDuty = (hours: number) => {
+    if (shiftStarted && rules.windowBasis === 'elapsed') windowLeft -= hours;
+    if (hours >= rules.breakDuration) takeBreak();
+  };
+
+  const spendOnDuty = (hours: number, driving = false) => {
+    shiftStarted = true;
+    windowLeft -= hours;
+    onDutyLeft -= hours;
+    cycleLeft -= hours;
+    shiftOnDuty += hours;
+    if (driving) {
+      driveLeft -= hours;
+      breakLeft -= hours;
+      sinceBreak += hours;
+    } else if (hours >= rules.breakDuration) {
+      takeBreak();
+    }
+  };
+
+  const resetShift = () => {
+    driveLeft = rules.maxDriving;
+    windowLeft = rules.dutyWindow;
+    onDutyLeft = rules.maxOnDuty ?? Infinity;
+    shiftOnDuty = 0;
+    takeBreak();
+    shiftStarted = false;
+  };
+
+  // The shift carries on across the border, measured against the other country's limits
+  const crossBorder = (jurisdiction: BorderCrossing['jurisdiction']) => {
+    const next = ruleSetForJurisdiction(homeRules, jurisdiction);
+    driveLeft += next.maxDriving - rules.maxDriving;
+    windowLeft += next.dutyWindow - rules.dutyWindow;
+    onDutyLeft = next.maxOnDuty !== null ? next.maxOnDuty - shiftOnDuty : Infinity;
+    breakLeft = next.drivingBeforeBreak !== null ? next.drivingBeforeBreak - sinceBreak : Infinity;
+    cycleLeft += next.cycleHours - rules.cycleHours;
+    rules = next;
+    switches.push({ at: time, jurisdiction, location: `Mile ${Math.round(mile)}` });
+  };
+
+  const rest = (reason: string) => {
+    push('rest', 'off-duty', rules.offDutyReset, { reason });
+    resetShift();
+  };
+
+  const restart = () => {
+    push('restart', 'off-duty', rules.restartHours ?? rules.cycleDays * 24, {
+      reason: `${rules.cycleHours}-hour cycle limit reached`,
+    });
+    resetShift();
+    cycleLeft = rules.cycleHours;
+  };
+
+  // On-duty work that must fit in the current shift, resting first if it does not
+  const work = (
+    type: 'pickup' | 'dropoff' | 'fuel',
+    hours: number,
+    extra: Partial<Pick<PlanSegment, 'reason' | 'location' | 'stop'>> = {},
+  ) => {
+    if (cycleLeft < hours) restart();
+    if (windowLeft < hours || onDutyLeft < hours) rest(`Not enough duty window left for the ${type}`);
+    push(type, 'on-duty-not-driving', hours, extra);
+    spendOnDuty(hours);
+  };
+
+  // Drive one leg, stopping for whatever comes due along the way
+  const drive = ({ distance, duration }: PlanLeg) => {
+    const speed = duration > 0 ? distance / duration : 50; // average mph along the leg
+    const target = mile + distance;
+    while (target - mile > EPSILON) {
+      if (pending.length > 0 && pending[0].mile - mile <= EPSILON) {
+        crossBorder(pending.shift()!.jurisdiction);
+        continue;
+      }
+      if (cycleLeft <= EPSILON) {
+        restart();
+        continue;
+      }
+      if (driveLeft <= EPSILON) {
+        rest(`${rules.maxDriving}-hour driving limit reached`);
+        continue;
+      }
+      if (windowLeft <= EPSILON) {
+        rest(`${rules.dutyWindow}-hour duty window reached`);
+        continue;
+      }
+      if (onDutyLeft <= EPSILON) {
+        rest(`${rules.maxOnDuty}-hour on-duty limit reached`);
+        continue;
+      }
+      if (breakLeft <= EPSILON) {
+        push('break', 'off-duty', rules.breakDuration, {
+          reason: `${rules.drivingBeforeBreak} hours of driving without a break`,
+        });
+        spendOffDuty(rules.breakDuration);
+        continue;
+      }
+      if (FUEL_INTERVAL_MILES - sinceFuel <= EPSILON) {
+        work('fuel', FUEL_STOP_HOURS, { reason: `${FUEL_INTERVAL_MILES} miles since the last fuel stop` });
+        sinceFuel = 0;
+        continue;
+      }
+
+      const hours = Math.min(
+        driveLeft,
+        windowLeft,
+        onDutyLeft,
+        breakLeft,
+        cycleLeft,
+        (FUEL_INTERVAL_MILES - sinceFuel) / speed,
+        (target - mile) / speed,
+        pending.length > 0 ? (pending[0].mile - mile) / speed : Infinity,
+      );
+      const miles = Math.min(hours * speed, target - mile);
+      push('drive', 'driving', hours, { miles });
+      spendOnDuty(hours, true);
+      sinceFuel += miles;
+    }
+  };
+
+  stops.forEach((stop, idx) => {
+    work(stop.type, STOP_HOURS, { location: stop.location, stop: idx });
+    if (idx < legs.length) drive(legs[idx]);
+  });
+
+  const hoursOf = (types: Array<PlanSegment['type']>) =>
+    segments.filter((s) => types.includes(s.type)).reduce((sum, s) => sum + (s.end - s.start) / HOUR, 0);
+  const count = (type: PlanSegment['type']) => segments.filter((s) => s.type === type).length;
+
+  return {
+    segments,
+    departure: departure.getTime(),
+    arrival: time,
+    totalMiles: mile,
+    drivingHours: hoursOf(['drive']),
+    onDutyHours: hoursOf(['drive', 'pickup', 'dropoff', 'fuel']),
+    breaks: count('break'),
+    rests: count('rest') + count('restart'),
+    fuelStops: count('fuel'),
+    switches,
+  };
+}
+
+const formatClock = (ms: number, dayStart: number, nextDay: number): string => {
+  if (ms >= nextDay) return '24:00';
+  const minutes = Math.round((ms - dayStart) / MINUTE);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Midnight of the calendar day after the one starting at `dayStart` (DST-safe)
+const nextDayStart = (dayStart: number) => startOfDay(toDateKey(new Date(dayStart + 25 * HOUR)));
+
+const segmentLocation = (segment: PlanSegment): string => {
+  switch (segment.type) {
+    case 'pickup':
+    case 'dropoff':
+      return segment.location || '';
+    case 'drive':
+      return `En route, mile ${Math.round(segment.mile)}`;
+    default:
+      return `Mile ${Math.round(segment.mile)}`;
+  }
+};
+
+const segmentNotes = (segment: PlanSegment): string | undefined => {
+  const label: Record<PlanSegment['type'], string | null> = {
+    drive: null,
+    pickup: 'Pickup',
+    dropoff: 'Drop-off',
+    fuel: 'Fuel stop',
+    break: '30-minute break',
+    rest: 'Off-duty rest',
+    restart: 'Cycle restart',
+  };
+  const parts = [label[segment.type], segment.reason].filter(Boolean);
+  return parts.length > 0 ? parts.join(' — ') : undefined;
+};
+
+type ProjectedPiece = PlanSegment & { location: string; notes?: string };
+
+// The first day up to departure as the driver recorded it, with unrecorded time off duty
+const recordedPieces = (history: DutyPeriod[], from: number, to: number, location: string): ProjectedPiece[] => {
+  const pieces: ProjectedPiece[] = [];
+  const offDuty = (start: number, end: number): ProjectedPiece => ({
+    type: 'rest',
+    status: 'off-duty',
+    start,
+    end,
+    mile: 0,
+    miles: 0,
+    location,
+  });
+  let cursor = from;
+  [...history]
+    .filter((p) => p.end > from && p.start < to)
+    .sort((a, b) => a.start - b.start)
+    .forEach((p) => {
+      const start = Math.max(p.start, cursor);
+      const end = Math.min(p.end, to);
+      if (end <= start) return;
+      if (start > cursor) pieces.push(offDuty(cursor, start));
+      pieces.push({
+        type: p.status === 'driving' ? 'drive' : 'rest',
+        status: p.status,
+        start,
+        end,
+        mile: 0,
+        miles: 0,
+        location,
+        notes: 'Recorded before departure',
+      });
+      cursor = end;
+    });
+  if (cursor < to) pieces.push(offDuty(cursor, to));
+  return pieces;
+};
+
+// Lay the plan out as one log sheet per calendar day. The first day starts with what the driver recorded
+// before departure and the last day is padded with off-duty time.
+export function projectLogs(plan: TripPlan, options: ProjectionOptions): ELDLog[] {
+  const { driverId, startOdometer = 0, history = [] } = options;
+  const origin = plan.segments[0]?.location || '';
+  const destination = plan.segments[plan.segments.length - 1]?.location || '';
+  const round = (ms: number) => Math.round(ms / MINUTE) * MINUTE;
+
+  const firstDay = startOfDay(toDateKey(new Date(plan.departure)));
+  const lastDay = startOfDay(toDateKey(new Date(plan.arrival)));
+  const pieces: ProjectedPiece[] = [
+    ...recordedPieces(history, firstDay, round(plan.departure), origin).map((piece) => ({
+      ...piece,
+      start: round(piece.start),
+      end: round(piece.end),
+    })),
+    ...plan.segments.map((segment) => ({
+      ...segment,
+      start: round(segment.start),
+      end: round(segment.end),
+      location: segmentLocation(segment),
+      notes: segmentNotes(segment),
+    })),
+    {
+      type: 'rest',
+      status: 'off-duty',
+      start: round(plan.arrival),
+      end: nextDayStart(lastDay),
+      mile: plan.totalMiles,
+      miles: 0,
+      location: destination,
+    },
+  ];
+
+  const logs: ELDLog[] = [];
+  let engineHours = 0;
+  for (let dayStart = firstDay; dayStart <= lastDay; dayStart = nextDayStart(dayStart)) {
+    const nextDay = nextDayStart(dayStart);
+    const date = toDateKey(new Date(dayStart));
+    const entries: ELDEntry[] = [];
+
+    pieces.forEach((piece, idx) => {
+      const start = Math.max(piece.start, dayStart);
+      const end = Math.min(piece.end, nextDay);
+      if (end - start < MINUTE) return;
+
+      // Odometer advances in proportion to the part of a drive segment already covered
+      const covered = piece.miles * ((start - piece.start) / Math.max(1, piece.end - piece.start));
+      const duration = (end - start) / HOUR;
+      entries.push({
+        id: `projected-${date}-${idx}`,
+        startTime: formatClock(start, dayStart, nextDay),
+        endTime: formatClock(end, dayStart, nextDay),
+        status: piece.status,
+        location: piece.location,
+        duration: Math.round(duration * 100) / 100,
+        odometer: Math.round(startOdometer + piece.mile + covered),
+        engineHours: Math.round(engineHours * 10) / 10,
+        notes: piece.notes,
+      });
+      if (piece.status === 'driving') engineHours += duration;
+    });
+
+    logs.push({ id: `projected-${date}`, date, driverId, logs: entries });
+  }
+  return logs;
+}
@@ -0,0 +1,158 @@
+// Vehicle profile of the driver's assigned truck and how it maps onto truck routing requests.
+// Dimensions are in feet and pounds.
+
+export type HazmatClass = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+
+export const HAZMAT_CLASSES: Record<HazmatClass, string> = {
+  '1': 'Class 1 — Explosives',
+  '2': 'Class 2 — Gases',
+  '3': 'Class 3 — Flammable liquids',
+  '4': 'Class 4 — Flammable solids',
+  '5': 'Class 5 — Oxidizers and organic peroxides',
+  '6': 'Class 6 — Toxic and infectious substances',
+  '7': 'Class 7 — Radioactive material',
+  '8': 'Class 8 — Corrosives',
+  '9': 'Class 9 — Miscellaneous',
+};
+
+export interface TruckProfile {
+  unitNumber: string;
+  height: number;
+  width: number;
+  length: number; // overall, tractor and trailer
+  grossWeight: number;
+  axles: number;
+  hazmatClass: HazmatClass | null; // null when not hauling placarded loads
+}
+
+export const DEFAULT_TRUCK: TruckProfile = {
+  unitNumber: '',
+  height: 13.5,
+  width: 8.5,
+  length: 70,
+  grossWeight: 80000,
+  axles: 5,
+  hazmatClass: null,
+};
+
+// The truck profile is kept per device, so it is also known before a driver logs in
+export const loadTruck = (): TruckProfile => {
+  try {
+    const raw = localStorage.getItem('tl_truck');
+    return raw ? { ...DEFAULT_TRUCK, ...JSON.parse(raw) } : DEFAULT_TRUCK;
+  } catch {
+    return DEFAULT_TRUCK;
+  }
+};
+
+// Envelope a standard truck route is built for; anything beyond it needs a larger vehicle class or a permit
+export const STANDARD_TRUCK_LIMITS = {
+  height: 13.5,
+  width: 8.5,
+  length: 75,
+  grossWeight: 80000,
+  axles: 5,
+};
+
+export type TruckRoutingMode = 'truck' | 'heavy_truck' | 'long_truck' | 'truck_dangerous_goods';
+
+// Profile fields a routing provider can be given along with the vehicle class
+export type TruckDimension = 'height' | 'width' | 'length' | 'grossWeight' | 'axles' | 'hazmat';
+
+export interface RouteRestriction {
+  label: string;
+  detail: string;
+  honored: boolean; // false when the routing provider could not take the restriction into account
+}
+
+export interface TruckRouting {
+  mode: TruckRoutingMode;
+  profile: TruckProfile; // for providers that take the exact dimensions
+  restrictions: RouteRestriction[];
+}
+
+export const formatFeet = (feet: number): string => {
+  const inches = Math.round(feet * 12);
+  return `${Math.floor(inches / 12)}'${inches % 12}"`;
+};
+
+const MODE_LABELS: Record<TruckRoutingMode, string> = {
+  truck: 'standard truck',
+  heavy_truck: 'heavy truck',
+  long_truck: 'long combination vehicle',
+  truck_dangerous_goods: 'dangerous goods',
+};
+
+// Pick the vehicle class that covers the truck and report which oversize dimensions the route accounts
+// for, either through that class or because the provider is sent the dimension itself (`sent`).
+export function truckRouting(truck: TruckProfile, sent: TruckDimension[] = []): TruckRouting {
+  const overweight = truck.grossWeight > STANDARD_TRUCK_LIMITS.grossWeight;
+  const overlength = truck.length > STANDARD_TRUCK_LIMITS.length;
+
+  // Hazmat routing is a legal requirement, so it wins over size classes
+  const mode: TruckRoutingMode = truck.hazmatClass
+    ? 'truck_dangerous_goods'
+    : overweight
+      ? 'heavy_truck'
+      : overlength
+        ? 'long_truck'
+        : 'truck';
+  const routedAs = `routed as ${MODE_LABELS[mode]}`;
+
+  // Only dimensions beyond the standard envelope affect the route
+  const restrictions: RouteRestriction[] = [];
+  const check = (
+    dimension: TruckDimension,
+    label: string,
+    value: string,
+    exceeds: boolean,
+    coveredBy: TruckRoutingMode | null,
+    limit: string,
+  ) => {
+    if (!exceeds) return;
+    if (sent.includes(dimension)) {
+      restrictions.push({ label, detail: `${value}, sent with the route request`, honored: true });
+    } else if (coveredBy === mode) {
+      restrictions.push({ label, detail: `${value}, ${routedAs}`, honored: true });
+    } else {
+      restrictions.push({
+        label,
+        detail: `${value} exceeds the ${limit} standard truck limit; check posted restrictions and permits`,
+        honored: false,
+      });
+    }
+  };
+
+  check('height', 'Height', formatFeet(truck.height), truck.height > STANDARD_TRUCK_LIMITS.height, null, formatFeet(STANDARD_TRUCK_LIMITS.height));
+  check('width', 'Width', formatFeet(truck.width), truck.width > STANDARD_TRUCK_LIMITS.width, null, formatFeet(STANDARD_TRUCK_LIMITS.width));
+  check('length', 'Length', formatFeet(truck.length), overlength, 'long_truck', formatFeet(STANDARD_TRUCK_LIMITS.length));
+  check(
+    'grossWeight',
+    'Gross weight',
+    `${truck.grossWeight.toLocaleString()} lb`,
+    overweight,
+    'heavy_truck',
+    `${STANDARD_TRUCK_LIMITS.grossWeight.toLocaleString()} lb`,
+  );
+  check('axles', 'Axles', String(truck.axles), truck.axles > STANDARD_TRUCK_LIMITS.axles, null, `${STANDARD_TRUCK_LIMITS.axles}-axle`);
+  if (truck.hazmatClass) {
+    restrictions.push({
+      label: 'Hazmat',
+      detail: `${HAZMAT_CLASSES[truck.hazmatClass]}, ${routedAs} (avoids restricted tunnels and routes)`,
+      honored: true,
+    });
+  }
+  return { mode, profile: truck, restrictions };
+}
+
+// Restrictions for a provider that routes every vehicle the same way: nothing in the profile is honored
+export function unsupportedTruckRouting(routing: TruckRouting, providerName: string): RouteRestriction[] {
+  return [
+    {
+      label: 'Truck routing',
+      detail: `${providerName} does not route for trucks; the route may use roads closed to trucks`,
+      honored: false,
+    },
+    ...routing.restrictions.map((r) => ({ ...r, honored: false })),
+  ];
+}
@@ -0,0 +1,61 @@
+import type { TrackPoint } from './breadcrumbs';
+import { trackMiles } from './breadcrumbs';
+
+// Driving detected while no driver is logged in. The miles are kept on the vehicle's unidentified
+// record until a driver claims them; rejected events stay there for the carrier to resolve.
+
+export type UnidentifiedStatus = 'unassigned' | 'claimed' | 'rejected';
+
+export interface UnidentifiedEvent {
+  id: string;
+  vehicle: string; // unit number of the truck, when one is set
+  start: number; // epoch ms
+  end: number; // epoch ms
+  track: TrackPoint[];
+  startLocation?: string;
+  endLocation?: string;
+  status: UnidentifiedStatus;
+}
+
+// One entry per decision a driver made on an event
+export interface UnidentifiedAuditEntry {
+  id: string;
+  eventId: string;
+  action: 'claimed' | 'rejected';
+  driverId: string;
+  driverName: string;
+  at: number; // epoch ms
+  note?: string;
+}
+
+export interface UnidentifiedRecord {
+  events: UnidentifiedEvent[];
+  audit: UnidentifiedAuditEntry[];
+}
+
+export const UNIDENTIFIED_MIN_MILES = 0.1; // shorter movements are GPS drift, not driving
+
+export const loadUnidentified = (): UnidentifiedRecord => {
+  const raw = localStorage.getItem('tl_unidentified');
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      events: Array.isArray(parsed?.events) ? parsed.events : [],
+      audit: Array.isArray(parsed?.audit) ? parsed.audit : [],
+    };
+  } catch {
+    return { events: [], audit: [] };
+  }
+};
+
+export const saveUnidentified = (record: UnidentifiedRecord) => {
+  try {
+    localStorage.setItem('tl_unidentified', JSON.stringify(record));
+  } catch {
+    // storage full; the record is still held in memory for this session
+  }
+};
+
+export const unidentifiedMiles = (event: UnidentifiedEvent): number => trackMiles(event.track);
+
+export const unidentifiedHours = (event: UnidentifiedEvent): number => (event.end - event.start) / 3600000;